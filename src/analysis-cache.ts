@@ -0,0 +1,177 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  ClassDeclaration,
+  extractNamespace,
+  findClassDeclarations,
+  findTypeKinds,
+  hasExcludeFromCodeCoverage,
+  isAutoGenerated,
+  TypeKind,
+} from './csharp';
+import { parseSuppressions, Suppression } from './suppressions';
+import { RULES } from './rules';
+import { AnalyzerOptions } from './types';
+import { IO_CONCURRENCY, mapWithConcurrency } from './concurrency';
+
+const CACHE_FILE = 'facts.json';
+// Bump when the facts or the way they are read change, older caches are then thrown away
+const CACHE_VERSION = 1;
+
+// What the rules know of a file's content, so unchanged files are not read again
+export interface FileFacts {
+  isTest: boolean;
+  // Null for the global namespace
+  namespace: string | null;
+  classes: ClassDeclaration[];
+  typeKinds: TypeKind[];
+  excludedFromCoverage: boolean;
+  autoGenerated: boolean;
+  suppressions: Suppression[];
+}
+
+interface CachedFile {
+  mtimeMs: number;
+  size: number;
+  facts: FileFacts;
+}
+
+interface CacheContent {
+  version: number;
+  // Options the facts were gathered with, other options mean other files and tests
+  optionsHash: string;
+  files: Record<string, CachedFile>;
+}
+
+export interface CacheStats {
+  // Files whose facts came from the cache
+  reused: number;
+  // Files read because they are new, changed or the cache did not fit
+  read: number;
+}
+
+export function collectFileFacts(content: string, filePath: string, isTest: boolean): FileFacts {
+  return {
+    isTest,
+    namespace: extractNamespace(content),
+    classes: findClassDeclarations(content),
+    typeKinds: findTypeKinds(content),
+    excludedFromCoverage: hasExcludeFromCodeCoverage(content),
+    autoGenerated: isAutoGenerated(content),
+    suppressions: parseSuppressions(content, filePath),
+  };
+}
+
+// JSON with sorted keys, options merged in another order hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b, 'en'));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Options choosing which findings to report, the files and their facts stay the same
+const REPORT_SCOPE_OPTIONS: (keyof AnalyzerOptions)[] = ['changedSince', 'staged'];
+
+// Known rule ids decide which suppressions are valid, so they are part of the key too
+function hashOptions(options: AnalyzerOptions): string {
+  const keyOptions = Object.fromEntries(
+    Object.entries(options).filter(
+      ([key]) => !REPORT_SCOPE_OPTIONS.includes(key as keyof AnalyzerOptions),
+    ),
+  );
+  return createHash('sha1')
+    .update(stableStringify({ options: keyOptions, rules: RULES.map((rule) => rule.id) }))
+    .digest('hex');
+}
+
+async function loadCache(
+  cacheFile: string,
+  optionsHash: string,
+): Promise<Record<string, CachedFile>> {
+  try {
+    const content: CacheContent = JSON.parse(await fs.readFile(cacheFile, 'utf-8'));
+    if (content.version === CACHE_VERSION && content.optionsHash === optionsHash) {
+      return content.files;
+    }
+  } catch {
+    // No cache yet, or one that cannot be read, every file is read
+  }
+  return {};
+}
+
+// Facts of every test and source file, from the cache for files of the same modification time
+// and size. The cache is rewritten with the files of this run only, so deleted files drop out
+export async function readFileFacts(
+  testFiles: string[],
+  sourceFiles: string[],
+  options: AnalyzerOptions,
+): Promise<{ facts: Map<string, FileFacts>; stats: CacheStats }> {
+  const tests = new Set(testFiles);
+  const files = [...new Set([...testFiles, ...sourceFiles])];
+  const cacheFile = path.resolve(options.cacheDir, CACHE_FILE);
+  const optionsHash = hashOptions(options);
+  const cached = options.cache ? await loadCache(cacheFile, optionsHash) : {};
+
+  const stats: CacheStats = { reused: 0, read: 0 };
+  const entries = await mapWithConcurrency(files, IO_CONCURRENCY, async (filePath) => {
+    const isTest = tests.has(filePath);
+    try {
+      const { mtimeMs, size } = await fs.stat(filePath);
+      const previous = cached[filePath];
+      if (
+        previous?.mtimeMs === mtimeMs &&
+        previous.size === size &&
+        previous.facts.isTest === isTest
+      ) {
+        stats.reused++;
+        return [filePath, previous] as const;
+      }
+      const content = await fs.readFile(filePath, 'utf-8');
+      stats.read++;
+      return [
+        filePath,
+        { mtimeMs, size, facts: collectFileFacts(content, filePath, isTest) },
+      ] as const;
+    } catch {
+      // Vanished since it was listed, the rules read it themselves or skip it
+      return null;
+    }
+  });
+  const cachedFiles = Object.fromEntries(entries.filter((entry) => entry !== null));
+
+  if (options.cache) {
+    const content: CacheContent = { version: CACHE_VERSION, optionsHash, files: cachedFiles };
+    try {
+      // Written aside and renamed, so a run reading it meanwhile never sees half a file
+      const tempFile = `${cacheFile}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+      await fs.writeFile(tempFile, JSON.stringify(content), 'utf-8');
+      await fs.rename(tempFile, cacheFile);
+    } catch {
+      // A read-only checkout still gets its analysis, only the next run is not faster
+    }
+  }
+
+  return {
+    facts: new Map(Object.entries(cachedFiles).map(([filePath, { facts }]) => [filePath, facts])),
+    stats,
+  };
+}
+
+export async function clearCache(cacheDir: string): Promise<void> {
+  try {
+    await fs.rm(path.resolve(cacheDir), { recursive: true, force: true });
+  } catch (error) {
+    throw new Error(
+      `Failed to clear the cache in ${cacheDir}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
@@ -1,19 +1,115 @@
 import * as path from 'node:path';
-import { glob } from 'glob';
 import {
-  AnalysisResult,
-  AnalysisError,
   AnalysisErrorType,
+  AnalysisResult,
   AnalyzerOptions,
   DEFAULT_OPTIONS,
+  LinterEventListener,
+  MissingTestExemption,
+  RuleId,
+  TestProjectFlavour,
 } from './types';
+import { applySuppressions, SuppressedFinding } from './suppressions';
+import { ChangedFiles, findChangedFiles, findRenames } from './git';
+import {
+  findRule,
+  getEnabledRules,
+  getRuleOptions,
+  isRuleEnabled,
+  ProjectContext,
+  Rule,
+  runProjectRule,
+  runTestFileRule,
+  TestFileContext,
+  toAnalysisErrors,
+} from './rules';
+import {
+  clearSolutionCache,
+  findProject,
+  findTestProjects,
+  isProjectFile,
+  readSolution,
+  SolutionLayout,
+} from './projects';
+import {
+  findFlavour,
+  getFlavourOptions,
+  getTestProjectFlavours,
+  getTestProjectName,
+  isTestProjectName,
+  toSourceProjectName,
+  toTestProjectName,
+} from './flavours';
+import {
+  calculateExpectedNamespace,
+  clearRootNamespaceCache,
+  NamespaceSettings,
+} from './namespaces';
+import { resolveSourceFromContent } from './source-resolution';
+import { createIgnoreMatcher, IgnoreMatcher } from './ignore';
+import { findSplitTestSource } from './split-tests';
+import { walkFiles, WalkRoot } from './file-walk';
+import { IO_CONCURRENCY, mapWithConcurrency } from './concurrency';
+import { CacheStats, collectFileFacts, FileFacts, readFileFacts } from './analysis-cache';
 import * as fs from 'node:fs';
 
+// What one run found
+export interface ProjectAnalysis {
+  results: AnalysisResult[];
+  // Findings about every file, results only keeps the ones about the changes. The baseline is
+  // saved from and compared with these
+  allResults: AnalysisResult[];
+  totalFiles: number;
+  suppressed: SuppressedFinding[];
+  exemptions: MissingTestExemption[];
+  // Null when the cache is off
+  cache: CacheStats | null;
+  // Analyzed files among the changes, null when all findings are reported
+  changedFiles: number | null;
+  // Rules run by any test project flavour
+  activeRuleIds: RuleId[];
+}
+
+// A rerun of the previous analysis after files changed on disk
+export interface IncrementalAnalysis extends ProjectAnalysis {
+  // Listed files that were added, removed or changed since the previous run, and changed
+  // solution and project files
+  touchedFiles: number;
+  // Tests evaluated again, the others kept their findings
+  reanalyzedTests: number;
+  // Files that could not be read, left out until they can
+  unreadableFiles: string[];
+}
+
+// Everything an analysis knows between runs, so a rerun only evaluates what changes touch
+interface AnalysisState {
+  options: AnalyzerOptions;
+  solution?: SolutionLayout;
+  flavours: TestProjectFlavour[];
+  // Options and rules of each flavour
+  flavourSettings: Map<TestProjectFlavour, { options: AnalyzerOptions; rules: Rule[] }>;
+  activeRuleIds: RuleId[];
+  testIgnoreMatcher: IgnoreMatcher;
+  roots: WalkRoot[];
+  testFiles: string[];
+  sourceFiles: string[];
+  sourceFileMap: Map<string, string[]>;
+  fileFacts: Map<string, FileFacts>;
+  findSourceRenames: () => Promise<Map<string, string>>;
+  // Flavour and findings of each test file, null when it has none
+  testResults: Map<string, { flavour: TestProjectFlavour; result: AnalysisResult | null }>;
+}
+
 export class Analyzer {
-  async analyzeProject(options: Partial<AnalyzerOptions> = {}): Promise<{
-    results: AnalysisResult[];
-    totalFiles: number;
-  }> {
+  // Kept from the last analyzeProject for reanalyze
+  private state?: AnalysisState;
+  private readonly onEvent: LinterEventListener;
+
+  constructor(onEvent: LinterEventListener = () => {}) {
+    this.onEvent = onEvent;
+  }
+
+  async analyzeProject(options: Partial<AnalyzerOptions> = {}): Promise<ProjectAnalysis> {
     const mergedOptions: AnalyzerOptions = {
       ...DEFAULT_OPTIONS,
       ...options,
@@ -21,94 +117,446 @@ export class Analyzer {
       testRoot: path.resolve(options.testRoot ?? DEFAULT_OPTIONS.testRoot),
       ignoreDirectories: options.ignoreDirectories ?? DEFAULT_OPTIONS.ignoreDirectories,
       ignoreFiles: options.ignoreFiles ?? DEFAULT_OPTIONS.ignoreFiles,
+      solution: options.solution ? path.resolve(options.solution) : undefined,
+      rules: { ...DEFAULT_OPTIONS.rules, ...options.rules },
     };
-
-    const normalizedIgnoreFiles = new Set(mergedOptions.ignoreFiles.map((f) => f.toLowerCase()));
-    // Find all test files - always pass the ignore configurations
-    const testFiles = await this.findTestFiles(
+    if (mergedOptions.changedSince !== undefined && mergedOptions.staged) {
+      throw new Error('changedSince and staged cannot be combined');
+    }
+    // Asked for first, an unknown ref fails before the analysis
+    const changes = await this.findChanges(mergedOptions);
+    clearSolutionCache();
+    clearRootNamespaceCache();
+    const solution = mergedOptions.solution
+      ? readSolution(mergedOptions.solution, mergedOptions)
+      : undefined;
+    const flavours = getTestProjectFlavours(mergedOptions);
+    const flavourSettings = new Map(
+      flavours.map((flavour) => {
+        const flavourOptions = getFlavourOptions(mergedOptions, flavour);
+        return [flavour, { options: flavourOptions, rules: getEnabledRules(flavourOptions) }];
+      }),
+    );
+    // A rule is active when any flavour runs it
+    const activeRuleIds = [
+      ...new Set(
+        [...flavourSettings.values()].flatMap(({ rules }) => rules.map((rule) => rule.id)),
+      ),
+    ];
+
+    // Both sides come from one walk, source and tests often share a folder
+    const testIgnoreMatcher = createIgnoreMatcher(mergedOptions, 'test');
+    const sourceIgnoreMatcher = createIgnoreMatcher(mergedOptions, 'source');
+    const roots: WalkRoot[] = [
+      {
+        dir: mergedOptions.testRoot,
+        skipDirectory: (dir) => testIgnoreMatcher.ignoresDirectory(dir),
+      },
+      {
+        dir: mergedOptions.srcRoot,
+        skipDirectory: (dir) => sourceIgnoreMatcher.ignoresDirectory(dir),
+      },
+    ];
+    const [walkedTestFiles, walkedSourceFiles] = await walkFiles(
+      roots,
+      mergedOptions.fileExtension,
+    );
+    const testFiles = this.findTestFiles(
+      walkedTestFiles,
       mergedOptions.testRoot,
       mergedOptions.fileExtension,
       mergedOptions.testFileSuffix,
-      mergedOptions.ignoreDirectories,
-      normalizedIgnoreFiles,
-      mergedOptions.testProjectSuffix,
+      testIgnoreMatcher,
+      (projectName) => isTestProjectName(projectName, mergedOptions),
+      solution?.projects.filter((project) => project.isTest).map((project) => project.dir),
+    );
+    const sourceFiles = this.findSourceFiles(walkedSourceFiles, sourceIgnoreMatcher);
+    const listedFiles = testFiles.length + sourceFiles.length;
+    this.onEvent({
+      type: 'progress',
+      stage: 'listing',
+      completed: listedFiles,
+      total: listedFiles,
+    });
+    // Only new and changed files are read when the cache is on
+    const { facts: fileFacts, stats: cacheStats } = await readFileFacts(
+      testFiles,
+      sourceFiles,
+      mergedOptions,
     );
 
-    const sourceFiles = await this.findSourceFiles(
-      mergedOptions.srcRoot,
-      mergedOptions.fileExtension,
-      mergedOptions.ignoreDirectories,
-      normalizedIgnoreFiles,
+    // Orphaned tests may point at sources renamed since. The history is only asked for when it
+    // can matter, once the first orphan shows up, and once for the run
+    const orphanedTestRule = findRule('orphaned-test')!;
+    const useGitHistory =
+      activeRuleIds.includes(orphanedTestRule.id) &&
+      getRuleOptions(orphanedTestRule, mergedOptions).useGitHistory;
+    let sourceRenames: Promise<Map<string, string>> | undefined;
+    const findSourceRenames = async () =>
+      useGitHistory ? (sourceRenames ??= findRenames(mergedOptions.srcRoot)) : new Map();
+
+    const state: AnalysisState = {
+      options: mergedOptions,
+      solution,
+      flavours,
+      flavourSettings,
+      activeRuleIds,
+      testIgnoreMatcher,
+      roots,
+      testFiles,
+      sourceFiles,
+      // Tests find their source by name, a lookup instead of a scan of every source
+      sourceFileMap: this.createSourceFileMap(sourceFiles, mergedOptions.fileExtension),
+      fileFacts,
+      findSourceRenames,
+      testResults: new Map(),
+    };
+    for (const [index, testFile] of testFiles.entries()) {
+      state.testResults.set(testFile, await this.evaluateTestFile(state, testFile));
+      this.reportAnalyzed(index, testFiles.length);
+    }
+    this.state = state;
+
+    return {
+      ...this.completeAnalysis(state, changes),
+      cache: mergedOptions.cache ? cacheStats : null,
+    };
+  }
+
+  // Runs the previous analysis again after the given paths changed, files or folders. Only
+  // tests that are new, changed or named after a changed source are evaluated again, project
+  // rules and suppressions see every file
+  async reanalyze(changedPaths: string[]): Promise<IncrementalAnalysis> {
+    const state = this.state;
+    if (!state) {
+      throw new Error('Nothing to reanalyze, analyze the project first');
+    }
+    const { options } = state;
+    const changes = await this.findChanges(options);
+    // Projects decide where tests belong, when one changes every test is evaluated again
+    const changedProjectFiles = changedPaths.filter(isProjectFile);
+    if (changedProjectFiles.length > 0) {
+      clearSolutionCache();
+      clearRootNamespaceCache();
+      state.solution = options.solution ? readSolution(options.solution, options) : undefined;
+    }
+
+    // Listed again, moved folders show up as removed and added files
+    const [walkedTestFiles, walkedSourceFiles] = await walkFiles(
+      state.roots,
+      options.fileExtension,
+    );
+    const testFiles = this.findTestFiles(
+      walkedTestFiles,
+      options.testRoot,
+      options.fileExtension,
+      options.testFileSuffix,
+      state.testIgnoreMatcher,
+      (projectName) => isTestProjectName(projectName, options),
+      state.solution?.projects.filter((project) => project.isTest).map((project) => project.dir),
+    );
+    const sourceFiles = this.findSourceFiles(
+      walkedSourceFiles,
+      createIgnoreMatcher(options, 'source'),
     );
 
-    const results: AnalysisResult[] = [];
+    const changed = new Set(changedPaths.map((changedPath) => path.resolve(changedPath)));
+    const previousTests = new Set(state.testFiles);
+    const previousSources = new Set(state.sourceFiles);
+    const currentTests = new Set(testFiles);
+    const currentSources = new Set(sourceFiles);
+    const touchedTests = testFiles.filter((file) => !previousTests.has(file) || changed.has(file));
+    const touchedSources = [
+      ...sourceFiles.filter((file) => !previousSources.has(file) || changed.has(file)),
+      ...state.sourceFiles.filter((file) => !currentSources.has(file)),
+    ];
+    const removedTests = state.testFiles.filter((file) => !currentTests.has(file));
+    const sourcesAddedOrRemoved = touchedSources.some(
+      (file) => !previousSources.has(file) || !currentSources.has(file),
+    );
 
-    // Process all test files
-    for (const testFile of testFiles) {
-      const result = await this.analyzeTestFile(testFile, mergedOptions, sourceFiles);
-      if (result) {
-        results.push(result);
+    // Facts of touched files are read again, one that cannot be read does not stop the others
+    const unreadableFiles = new Set<string>();
+    for (const file of [...removedTests, ...touchedSources]) {
+      state.fileFacts.delete(file);
+    }
+    const touchedFiles = [
+      ...touchedTests,
+      ...touchedSources.filter((file) => currentSources.has(file)),
+    ];
+    await mapWithConcurrency(touchedFiles, IO_CONCURRENCY, async (file) => {
+      try {
+        const content = await fs.promises.readFile(file, 'utf-8');
+        state.fileFacts.set(file, collectFileFacts(content, file, currentTests.has(file)));
+      } catch {
+        state.fileFacts.delete(file);
+        unreadableFiles.add(file);
       }
+    });
+
+    state.testFiles = testFiles;
+    state.sourceFiles = sourceFiles;
+    state.sourceFileMap = this.createSourceFileMap(sourceFiles, options.fileExtension);
+    for (const file of removedTests) {
+      state.testResults.delete(file);
     }
 
-    if (mergedOptions.validateMissingTests) {
-      const missingTestResults = await this.analyzeMissingTests(
-        sourceFiles,
-        testFiles,
-        mergedOptions,
+    // Tests matched by name, split tests contain their source's name. Orphans may find a
+    // source, or suggestions, whenever sources come or go
+    const touchedNames = touchedSources.map((file) =>
+      path.basename(file, options.fileExtension).toLowerCase(),
+    );
+    const touchedTestSet = new Set(touchedTests);
+    const affectedTests = testFiles.filter((testFile) => {
+      if (changedProjectFiles.length > 0 || touchedTestSet.has(testFile)) {
+        return true;
+      }
+      const testName = path.basename(testFile, options.fileExtension).toLowerCase();
+      if (touchedNames.some((name) => testName.includes(name))) {
+        return true;
+      }
+      return (
+        sourcesAddedOrRemoved &&
+        Boolean(
+          state.testResults
+            .get(testFile)
+            ?.result?.errors.some((error) => error.type === AnalysisErrorType.OrphanedTest),
+        )
       );
-      results.push(...missingTestResults);
+    });
+    for (const [index, testFile] of affectedTests.entries()) {
+      if (unreadableFiles.has(testFile)) {
+        state.testResults.delete(testFile);
+      } else {
+        try {
+          state.testResults.set(testFile, await this.evaluateTestFile(state, testFile));
+        } catch {
+          state.testResults.delete(testFile);
+          unreadableFiles.add(testFile);
+        }
+      }
+      this.reportAnalyzed(index, affectedTests.length);
+    }
+    for (const file of unreadableFiles) {
+      this.onEvent({
+        type: 'diagnostic',
+        level: 'warning',
+        message: `Could not read ${file}, it is left out until it can be read`,
+        filePath: file,
+      });
     }
-
-    // Final step: Always filter out any results for ignored files or files in ignored directories
-    const filteredResults = results.filter((result) => this.filterResults(result, mergedOptions));
 
     return {
-      results: filteredResults,
-      totalFiles: testFiles.length + sourceFiles.length,
+      ...this.completeAnalysis(state, changes),
+      cache: null,
+      touchedFiles:
+        touchedTests.length +
+        touchedSources.length +
+        removedTests.length +
+        changedProjectFiles.length,
+      reanalyzedTests: affectedTests.length,
+      unreadableFiles: [...unreadableFiles].sort((a, b) => a.localeCompare(b, 'en')),
     };
   }
 
-  filterResults(result: AnalysisResult, mergedOptions: AnalyzerOptions): boolean {
-    const normalizedPath = path.normalize(result.testFilePath);
-
-    // Skip results for files in ignored directories
-    for (const ignoreDir of mergedOptions.ignoreDirectories) {
-      // Check if path contains the directory with proper path separators
-      // Handle various positions: start, middle, end of path
-      const normalizedIgnoreDir = ignoreDir.replaceAll(/[/\\]/g, path.sep);
-
-      // Check for ignored directory in path
-      if (
-        normalizedPath.includes(`${path.sep}${normalizedIgnoreDir}${path.sep}`) || // Middle
-        normalizedPath.endsWith(`${path.sep}${normalizedIgnoreDir}`) || // End
-        normalizedPath.startsWith(`${normalizedIgnoreDir}${path.sep}`) // Start
-      ) {
-        return false;
+  // The roots the analysis lists files from, with the directories it skips
+  getWatchRoots(): WalkRoot[] {
+    if (!this.state) {
+      throw new Error('Nothing to watch, analyze the project first');
+    }
+    return this.state.roots;
+  }
+
+  // Every hundredth test and the last, enough for a progress bar without a call per file
+  private reportAnalyzed(index: number, total: number): void {
+    const completed = index + 1;
+    if (completed % 100 === 0 || completed === total) {
+      this.onEvent({ type: 'progress', stage: 'analyzing', completed, total });
+    }
+  }
+
+  private async findChanges(mergedOptions: AnalyzerOptions): Promise<ChangedFiles | null> {
+    if (mergedOptions.changedSince === undefined && !mergedOptions.staged) {
+      return null;
+    }
+    return findChangedFiles(mergedOptions.srcRoot, {
+      since: mergedOptions.changedSince,
+      staged: mergedOptions.staged,
+    });
+  }
+
+  // Every flavour is analyzed with its own suffix and rules
+  private async evaluateTestFile(
+    state: AnalysisState,
+    testFile: string,
+  ): Promise<{ flavour: TestProjectFlavour; result: AnalysisResult | null }> {
+    const flavour =
+      this.findTestFileFlavour(testFile, state.options, state.flavours, state.solution) ??
+      state.flavours[0];
+    const { options: flavourOptions, rules: flavourRules } = state.flavourSettings.get(flavour)!;
+    if (!flavourRules.some((rule) => rule.checkTestFile)) {
+      return { flavour, result: null };
+    }
+    const result = await this.analyzeTestFile(
+      testFile,
+      flavourOptions,
+      state.sourceFiles,
+      flavourRules,
+      state.findSourceRenames,
+      state.sourceFileMap,
+      state.fileFacts,
+    );
+    return { flavour, result };
+  }
+
+  // Project rules, ignores and suppressions over the findings of every test
+  private completeAnalysis(
+    state: AnalysisState,
+    changes: ChangedFiles | null,
+  ): Omit<ProjectAnalysis, 'cache'> {
+    const { options: mergedOptions, testFiles, sourceFiles, fileFacts } = state;
+    // Flavour names only show up in the results when the user configured flavours
+    const reportFlavour = mergedOptions.testProjectFlavours.length > 0;
+    const results: AnalysisResult[] = [];
+    // Source path -> exemption, flavours checking missing tests find the same ones
+    const exemptions = new Map<string, MissingTestExemption>();
+
+    for (const flavour of state.flavours) {
+      const { options: flavourOptions, rules: flavourRules } = state.flavourSettings.get(flavour)!;
+      const flavourTestFiles = testFiles.filter(
+        (testFile) => state.testResults.get(testFile)?.flavour === flavour,
+      );
+      const flavourResults: AnalysisResult[] = [];
+      for (const testFile of flavourTestFiles) {
+        const { result } = state.testResults.get(testFile)!;
+        if (result) {
+          flavourResults.push(result);
+        }
+      }
+
+      const projectContext: ProjectContext = {
+        options: flavourOptions,
+        sourceFiles,
+        testFiles: flavourTestFiles,
+        calculateExpectedTestPath: (sourceFilePath) =>
+          this.calculateExpectedTestPath(sourceFilePath, flavourOptions),
+        readFacts: (filePath) => this.findFileFacts(fileFacts, filePath, false),
+        recordExemption: (exemption) => exemptions.set(exemption.sourceFilePath, exemption),
+      };
+      for (const rule of flavourRules) {
+        flavourResults.push(...runProjectRule(rule, projectContext, flavourOptions));
+      }
+
+      for (const result of flavourResults) {
+        results.push(reportFlavour ? { ...result, flavour: flavour.name } : result);
       }
     }
 
-    // Skip results for ignored files
-    for (const ignoreFile of mergedOptions.ignoreFiles) {
-      if (path.basename(normalizedPath).toLowerCase() === ignoreFile.toLowerCase()) {
-        return false;
+    // Always filter out any results for ignored files or files in ignored directories
+    const filteredResults = results.filter((result) =>
+      this.filterResults(result, state.testIgnoreMatcher),
+    );
+
+    // Final step: drop findings silenced by comments in the files themselves
+    const suppression = applySuppressions(
+      filteredResults,
+      testFiles,
+      sourceFiles,
+      state.activeRuleIds,
+      (filePath) => fileFacts.get(filePath)?.suppressions ?? [],
+    );
+    const unusedSuppressionRule = findRule('unused-suppression')!;
+    if (isRuleEnabled(unusedSuppressionRule, mergedOptions)) {
+      for (const unused of suppression.unused) {
+        suppression.results.push({
+          ...unused,
+          errors: toAnalysisErrors(unusedSuppressionRule, unused.errors, mergedOptions),
+        });
+      }
+    }
+
+    return {
+      results: changes
+        ? this.limitToChanges(suppression.results, changes, mergedOptions)
+        : suppression.results,
+      allResults: suppression.results,
+      totalFiles: testFiles.length + sourceFiles.length,
+      suppressed: suppression.suppressed,
+      exemptions: [...exemptions.values()],
+      changedFiles: changes
+        ? [...testFiles, ...sourceFiles].filter((file) => changes.paths.has(file)).length
+        : null,
+      activeRuleIds: state.activeRuleIds,
+    };
+  }
+
+  // Keeps the findings about changed tests and changed sources, e.g. the misplaced test of a
+  // moved source, and tells which sources git reports renamed
+  private limitToChanges(
+    results: AnalysisResult[],
+    changes: ChangedFiles,
+    mergedOptions: AnalyzerOptions,
+  ): AnalysisResult[] {
+    const renamedFrom = new Map([...changes.renames].map(([from, to]) => [to, from]));
+    // Tests named after a removed source are orphaned by the change
+    const removedNames = new Set(
+      [...changes.removed].map((file) =>
+        path.basename(file, mergedOptions.fileExtension).toLowerCase(),
+      ),
+    );
+
+    const limited: AnalysisResult[] = [];
+    for (const result of results) {
+      const testChanged = changes.paths.has(result.testFilePath);
+      const testedName = path
+        .basename(result.testFile, mergedOptions.fileExtension)
+        .replace(new RegExp(`${mergedOptions.testFileSuffix}$`), '')
+        .toLowerCase();
+
+      const errors = result.errors
+        .filter((error) => {
+          const sourceFiles = error.sourceFilePath?.split(',').map((p) => p.trim()) ?? [];
+          return (
+            testChanged ||
+            sourceFiles.some((file) => changes.paths.has(file)) ||
+            (error.type === AnalysisErrorType.OrphanedTest && removedNames.has(testedName))
+          );
+        })
+        .map((error) => {
+          const previousPath = error.sourceFilePath && renamedFrom.get(error.sourceFilePath);
+          return previousPath ? { ...error, sourceRenamedFrom: previousPath } : error;
+        });
+      if (errors.length > 0) {
+        limited.push({ ...result, errors });
       }
     }
+    return limited;
+  }
 
-    return true;
+  // Results for ignored test paths are dropped, missing tests included
+  filterResults(result: AnalysisResult, testIgnoreMatcher: IgnoreMatcher): boolean {
+    return !testIgnoreMatcher.ignores(result.testFilePath);
   }
 
   async analyzeTestFile(
     testFile: string,
     mergedOptions: AnalyzerOptions,
     sourceFiles: string[],
-  ): Promise<AnalysisResult | null> {
-    const testFileName = path.basename(testFile, mergedOptions.fileExtension);
-    const sourceFileName = testFileName.replace(new RegExp(`${mergedOptions.testFileSuffix}$`), '');
-    const matchingSourceFiles = await this.findMatchingSourceFiles(
+    rules: Rule[] = getEnabledRules(mergedOptions),
+    findSourceRenames: () => Promise<Map<string, string>> = async () => new Map(),
+    sourceFileMap: Map<string, string[]> = this.createSourceFileMap(
       sourceFiles,
-      sourceFileName,
       mergedOptions.fileExtension,
+    ),
+    fileFacts: Map<string, FileFacts> = new Map(),
+  ): Promise<AnalysisResult | null> {
+    const context = await this.createTestFileContext(
+      testFile,
+      mergedOptions,
+      sourceFiles,
+      findSourceRenames,
+      sourceFileMap,
+      fileFacts,
     );
 
     const result: AnalysisResult = {
@@ -117,16 +565,8 @@ export class Analyzer {
       errors: [],
     };
 
-    if (matchingSourceFiles.length === 0) {
-      result.errors.push({
-        type: AnalysisErrorType.InvalidDirectoryStructure,
-        message: `Source file not found: ${sourceFileName}${mergedOptions.fileExtension}`,
-        actualTestPath: testFile,
-      });
-    } else if (matchingSourceFiles.length > 1) {
-      this.handleMultipleMatchingFiles(testFile, matchingSourceFiles, mergedOptions, result);
-    } else {
-      this.handleSingleMatchingFile(testFile, matchingSourceFiles[0], mergedOptions, result);
+    for (const rule of rules) {
+      result.errors.push(...runTestFileRule(rule, context, mergedOptions));
     }
 
     if (result.errors.length > 0) {
@@ -135,36 +575,158 @@ export class Analyzer {
     return null;
   }
 
-  private handleMultipleMatchingFiles(
+  async createTestFileContext(
+    testFile: string,
+    mergedOptions: AnalyzerOptions,
+    sourceFiles: string[],
+    findSourceRenames: () => Promise<Map<string, string>> = async () => new Map(),
+    sourceFileMap: Map<string, string[]> = this.createSourceFileMap(
+      sourceFiles,
+      mergedOptions.fileExtension,
+    ),
+    // Facts of the files of the analysis, others are read when needed
+    fileFacts: Map<string, FileFacts> = new Map(),
+  ): Promise<TestFileContext> {
+    const { fileExtension } = mergedOptions;
+    const testFileName = path.basename(testFile, fileExtension);
+    let sourceFileName = testFileName.replace(new RegExp(`${mergedOptions.testFileSuffix}$`), '');
+    let candidates = this.findMatchingSourceFiles(sourceFileMap, sourceFileName);
+
+    const splitSource =
+      candidates.length === 0 && mergedOptions.splitTestPatterns.length > 0
+        ? findSplitTestSource(testFileName, mergedOptions.splitTestPatterns, (name) =>
+            this.findMatchingSourceFiles(sourceFileMap, name).some(
+              (file) => path.basename(file, fileExtension) === name,
+            ),
+          )
+        : null;
+    if (splitSource) {
+      sourceFileName = splitSource;
+      candidates = this.findMatchingSourceFiles(sourceFileMap, sourceFileName);
+    }
+
+    let content: string | undefined;
+    const context: TestFileContext = {
+      testFile,
+      options: mergedOptions,
+      sourceFileName,
+      candidates,
+      isSplitTest: Boolean(splitSource),
+      readContent: () => (content ??= fs.readFileSync(testFile, 'utf-8')),
+      readFacts: () =>
+        fileFacts.get(testFile) ?? collectFileFacts(context.readContent(), testFile, true),
+      sourceFiles,
+      // Only orphans, tests without a source of their name, look at the renames
+      sourceRenames: candidates.length === 0 ? await findSourceRenames() : new Map(),
+      calculateExpectedTestPath: (sourceFilePath) =>
+        this.calculateExpectedTestPath(sourceFilePath, mergedOptions),
+    };
+
+    if (candidates.length === 1) {
+      context.sourcePath = candidates[0];
+    } else if (candidates.length > 1) {
+      context.sourcePath = this.resolveAmbiguousSource(testFile, candidates, mergedOptions);
+      if (!context.sourcePath) {
+        // Misplaced tests do not mirror their source's folder, what they refer to tells
+        const resolved = resolveSourceFromContent(
+          context.readContent(),
+          candidates,
+          sourceFileName,
+          (sourceFilePath) =>
+            this.findFileFacts(fileFacts, sourceFilePath, false)?.namespace ?? null,
+          (sourceFilePath) => this.calculateExpectedTestNamespace(sourceFilePath, mergedOptions),
+        );
+        if (resolved) {
+          context.sourcePath = resolved.sourcePath;
+          context.sourceResolution = { confidence: resolved.confidence, reason: resolved.reason };
+        }
+      }
+    }
+
+    if (context.sourcePath) {
+      context.expectedTestPath = this.calculateExpectedTestPath(context.sourcePath, mergedOptions);
+      if (splitSource) {
+        // Split tests keep their own name next to the source's main test file
+        context.expectedTestPath = path.join(
+          path.dirname(context.expectedTestPath),
+          path.basename(testFile),
+        );
+      }
+    }
+
+    return context;
+  }
+
+  // Files the analysis did not list are read on demand
+  private findFileFacts(
+    fileFacts: Map<string, FileFacts>,
+    filePath: string,
+    isTest: boolean,
+  ): FileFacts | null {
+    let facts = fileFacts.get(filePath);
+    if (!facts) {
+      try {
+        facts = collectFileFacts(fs.readFileSync(filePath, 'utf-8'), filePath, isTest);
+      } catch {
+        return null;
+      }
+      fileFacts.set(filePath, facts);
+    }
+    return facts;
+  }
+
+  private calculateExpectedTestNamespace(
+    sourceFilePath: string,
+    mergedOptions: AnalyzerOptions,
+  ): string | null {
+    // Same settings as the namespace-mismatch rule
+    const settings = getRuleOptions(findRule('namespace-mismatch')!, mergedOptions);
+    return calculateExpectedNamespace(
+      this.calculateExpectedTestPath(sourceFilePath, mergedOptions),
+      mergedOptions,
+      settings as NamespaceSettings,
+    );
+  }
+
+  private findTestFileFlavour(
+    testFile: string,
+    mergedOptions: AnalyzerOptions,
+    flavours: TestProjectFlavour[],
+    solution?: SolutionLayout,
+  ): TestProjectFlavour | undefined {
+    const testProject = solution && findProject(solution, testFile, true);
+    return findFlavour(
+      testProject ? testProject.name : getTestProjectName(testFile, mergedOptions),
+      flavours,
+      mergedOptions,
+    );
+  }
+
+  private resolveAmbiguousSource(
     testFile: string,
     matchingSourceFiles: string[],
     mergedOptions: AnalyzerOptions,
-    result: AnalysisResult,
-  ): void {
+  ): string | undefined {
+    if (mergedOptions.solution) {
+      // Project folders do not line up by name, the candidate whose test belongs here wins
+      const testDir = path.dirname(path.resolve(testFile));
+      return matchingSourceFiles.find(
+        (file) => path.dirname(this.calculateExpectedTestPath(file, mergedOptions)) === testDir,
+      );
+    }
+
     const relativeTestPath = path.relative(mergedOptions.testRoot, testFile);
     const testDirPath = path.dirname(relativeTestPath);
     const testDirSegments = testDirPath.split(/[/\\]/);
     const testProjectDirSegment = testDirSegments[0];
     const testPathAfterProjectDir = testDirSegments.slice(1).join(path.sep);
 
-    const matchingSourceByDir = this.findMatchingSourceByDirectory(
+    return this.findMatchingSourceByDirectory(
       matchingSourceFiles,
       testProjectDirSegment,
       testPathAfterProjectDir,
       mergedOptions,
     );
-
-    if (matchingSourceByDir) {
-      const expectedTestPath = this.calculateExpectedTestPath(matchingSourceByDir, mergedOptions);
-      this.validateTestFilePath(testFile, expectedTestPath, matchingSourceByDir, result);
-    } else {
-      result.errors.push({
-        type: AnalysisErrorType.InvalidDirectoryStructure,
-        message: `Multiple matching source files found (${matchingSourceFiles.length}). Unable to determine correct source file`,
-        sourceFilePath: matchingSourceFiles.join(', '),
-        actualTestPath: testFile,
-      });
-    }
   }
 
   private findMatchingSourceByDirectory(
@@ -181,190 +743,54 @@ export class Analyzer {
       const sourcePathAfterProjectDir = sourceDirSegments.slice(1).join(path.sep);
 
       return (
-        sourceProjectDirSegment ===
-          testProjectDirSegment.replace(mergedOptions.testProjectSuffix, '') &&
+        sourceProjectDirSegment === toSourceProjectName(testProjectDirSegment, mergedOptions) &&
         sourcePathAfterProjectDir === testPathAfterProjectDir
       );
     });
   }
 
-  private handleSingleMatchingFile(
-    testFile: string,
-    sourcePath: string,
-    mergedOptions: AnalyzerOptions,
-    result: AnalysisResult,
-  ): void {
-    const expectedTestPath = this.calculateExpectedTestPath(sourcePath, mergedOptions);
-    this.validateTestFilePath(testFile, expectedTestPath, sourcePath, result);
-  }
-
-  private validateTestFilePath(
-    testFile: string,
-    expectedTestPath: string,
-    sourcePath: string,
-    result: AnalysisResult,
-  ): void {
-    if (testFile === expectedTestPath) {
-      return;
-    }
-
-    const actualDir = path.dirname(testFile);
-    const expectedDir = path.dirname(expectedTestPath);
-    const expectedFileName = path.basename(expectedTestPath);
-
-    if (path.normalize(actualDir) === path.normalize(expectedDir)) {
-      result.errors.push({
-        type: AnalysisErrorType.InvalidFileName,
-        message: `Test file has incorrect name. Expected: ${expectedFileName}`,
-        sourceFilePath: sourcePath,
-        actualTestPath: testFile,
-        expectedTestPath: expectedTestPath,
-      });
-    } else {
-      result.errors.push({
-        type: AnalysisErrorType.InvalidDirectoryStructure,
-        message: 'Test file is in wrong directory',
-        sourceFilePath: sourcePath,
-        actualTestPath: testFile,
-        expectedTestPath: expectedTestPath,
-      });
-    }
-  }
-
-  async findTestFiles(
+  findTestFiles(
+    files: string[],
     dir: string,
     extension: string,
     testFileSuffix: string,
-    ignoreDirectories: string[] = [],
-    normalizedIgnoreFiles: Set<string> = new Set<string>(),
-    testProjectSuffix: string = '.Tests',
-  ): Promise<string[]> {
-    try {
-      // Create glob ignore patterns including ignoreDirectories
-      const globIgnorePatterns = ['node_modules/**', ...ignoreDirectories.map((d) => `**/${d}/**`)];
-
-      const files = await new Promise<string[]>((resolve, reject) => {
-        glob(
-          `${dir}/**/*${extension}`,
-          {
-            ignore: globIgnorePatterns,
-          },
-          (err, files) => {
-            if (err) {
-              reject(err);
-              return;
-            }
-            resolve(files);
-          },
-        );
-      });
+    ignoreMatcher: IgnoreMatcher,
+    isTestProject: (projectName: string) => boolean = (projectName) =>
+      projectName.endsWith('.Tests'),
+    // Directories of the test projects of a solution, replaces the project name check
+    testProjectDirs?: string[],
+  ): string[] {
+    return files.filter((f: string) => {
+      // Skip files that don't have the test suffix in their filename
+      const fileNameWithoutExt = path.basename(f, extension);
+      if (!fileNameWithoutExt.endsWith(testFileSuffix)) {
+        return false;
+      }
 
-      return files
-        .map((f: string) => path.resolve(f))
-        .filter((f: string) => {
-          // Skip non-existing files
-          if (!fs.existsSync(f)) {
-            return false;
-          }
-
-          // Skip directories
-          const stats = fs.statSync(f);
-          if (stats.isDirectory()) {
-            return false;
-          }
-
-          // Skip files that don't have the test suffix in their filename
-          const fileName = path.basename(f);
-          const fileNameWithoutExt = path.basename(fileName, extension);
-          if (!fileNameWithoutExt.endsWith(testFileSuffix)) {
-            return false;
-          }
-
-          // Skip ignored files - case insensitive comparison
-          if (normalizedIgnoreFiles.has(fileName.toLowerCase())) {
-            return false;
-          }
-
-          // Get the path relative to the test root to check for ignored directories
-          const relativePath = path.relative(dir, f);
-          const pathSegments = relativePath.split(/[/\\]/);
-
-          // Only include files from projects with the exact test project suffix
-          if (pathSegments.length > 0) {
-            const projectName = pathSegments[0];
-            // Check if the project name ends with the exact test project suffix
-            // Not just any project containing "Tests" in the name
-            if (!projectName.endsWith(testProjectSuffix)) {
-              return false;
-            }
-
-            // Additional check to exclude Tests.* projects that aren't proper test projects
-            // e.g., Tests.Helpers
-            if (projectName.startsWith('Tests.')) {
-              return false;
-            }
-          }
-
-          return true;
-        });
-    } catch (error) {
-      console.error('Error finding test files:', error);
-      return [];
-    }
-  }
+      if (ignoreMatcher.ignores(f)) {
+        return false;
+      }
 
-  async findSourceFiles(
-    dir: string,
-    extension: string,
-    ignoreDirectories: string[] = [],
-    normalizedIgnoreFiles: Set<string> = new Set<string>(),
-  ): Promise<string[]> {
-    try {
-      // Create glob ignore patterns from ignore directories and files
-      const ignorePatterns = ['node_modules/**', ...ignoreDirectories.map((d) => `**/${d}/**`)];
-
-      const files = await new Promise<string[]>((resolve, reject) => {
-        glob(
-          `${dir}/**/*${extension}`,
-          {
-            ignore: ignorePatterns,
-          },
-          (err, files) => {
-            if (err) {
-              reject(err);
-              return;
-            }
-            resolve(files);
-          },
-        );
-      });
+      if (testProjectDirs) {
+        return testProjectDirs.some((dir) => f.startsWith(dir + path.sep));
+      }
 
-      return files
-        .map((f: string) => path.resolve(f))
-        .filter((f: string) => {
-          // Skip non-existing files
-          if (!fs.existsSync(f)) {
-            return false;
-          }
-
-          // Skip directories
-          const stats = fs.statSync(f);
-          if (stats.isDirectory()) {
-            return false;
-          }
-
-          // Skip ignored files - case insensitive comparison
-          const fileName = path.basename(f);
-          if (normalizedIgnoreFiles.has(fileName.toLowerCase())) {
-            return false;
-          }
-
-          return true;
-        });
-    } catch (error) {
-      console.error('Error finding source files:', error);
-      return [];
-    }
+      // Get the path relative to the test root to check for ignored directories
+      const relativePath = path.relative(dir, f);
+      const pathSegments = relativePath.split(/[/\\]/);
+
+      // Only include files from projects named like test projects, i.e. with the exact
+      // prefix or suffix, not just any project containing "Tests" in the name
+      if (pathSegments.length > 0 && !isTestProject(pathSegments[0])) {
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  findSourceFiles(files: string[], ignoreMatcher: IgnoreMatcher): string[] {
+    return files.filter((f: string) => !ignoreMatcher.ignores(f));
   }
 
   createSourceFileMap(sourceFiles: string[], extension: string): Map<string, string[]> {
@@ -372,143 +798,20 @@ export class Analyzer {
 
     for (const file of sourceFiles) {
       const baseName = path.basename(file, extension).toLowerCase();
-      const existingPaths = sourceMap.get(baseName) || [];
-      sourceMap.set(baseName, [...existingPaths, file]);
+      const existingPaths = sourceMap.get(baseName);
+      if (existingPaths) {
+        existingPaths.push(file);
+      } else {
+        sourceMap.set(baseName, [file]);
+      }
     }
 
     return sourceMap;
   }
 
-  async findMatchingSourceFiles(
-    sourceFiles: string[],
-    baseName: string,
-    extension: string,
-  ): Promise<string[]> {
-    return sourceFiles.filter((file) => {
-      const fileBaseName = path.basename(file, extension);
-      return fileBaseName.toLowerCase() === baseName.toLowerCase();
-    });
-  }
-
-  async validateFileName(filePath: string, suffix: string): Promise<AnalysisError | null> {
-    const fileName = path.basename(filePath, path.extname(filePath));
-    if (!fileName.endsWith(suffix)) {
-      return {
-        type: AnalysisErrorType.InvalidFileName,
-        message: `Test file name '${fileName}' does not end with '${suffix}'`,
-      };
-    }
-    return null;
-  }
-
-  validateDirectoryStructure(
-    testFilePath: string,
-    options: AnalyzerOptions,
-    sourceFiles: string[],
-  ): AnalysisError | null {
-    try {
-      const testFileName = path.basename(testFilePath, path.extname(testFilePath));
-      const sourceFileName = testFileName
-        .replace(new RegExp(`${options.testFileSuffix}$`), '')
-        .toLowerCase();
-
-      // Find all source files with matching base name
-      const matchingSourceFiles = sourceFiles.filter((file) => {
-        const fileBaseName = path.basename(file, options.fileExtension);
-        return fileBaseName.toLowerCase() === sourceFileName.toLowerCase();
-      });
-
-      if (matchingSourceFiles.length === 0) {
-        return {
-          type: AnalysisErrorType.InvalidDirectoryStructure,
-          message: `Source file not found: ${sourceFileName}${options.fileExtension}`,
-        };
-      }
-
-      if (matchingSourceFiles.length > 1) {
-        // Get the relative path of the test file
-        const relativeTestPath = path.relative(options.testRoot, testFilePath);
-        const testDirPath = path.dirname(relativeTestPath);
-        const testDirSegments = testDirPath.split(/[/\\]/);
-        const lastTestDirSegment = testDirSegments.at(-1);
-
-        // Try to find a source file with matching subdirectory structure
-        const matchingSourceByDir = matchingSourceFiles.find((file) => {
-          const relativeSourcePath = path.relative(options.srcRoot, file);
-          const sourceDirPath = path.dirname(relativeSourcePath);
-          const sourceDirSegments = sourceDirPath.split(/[/\\]/);
-          const lastSourceDirSegment = sourceDirSegments.at(-1);
-
-          return (
-            lastSourceDirSegment &&
-            lastTestDirSegment &&
-            lastSourceDirSegment.toLowerCase() === lastTestDirSegment.toLowerCase()
-          );
-        });
-
-        if (matchingSourceByDir) {
-          // We found a match based on directory structure, check if it's in the right location
-          const expectedTestPath = this.calculateExpectedTestPath(matchingSourceByDir, options);
-          if (path.normalize(testFilePath) !== path.normalize(expectedTestPath)) {
-            // Test file is in the wrong directory
-            return {
-              type: AnalysisErrorType.InvalidDirectoryStructure,
-              message: 'Test file is in wrong directory',
-              sourceFilePath: path.join(
-                './src',
-                path.relative(options.srcRoot, matchingSourceByDir),
-              ),
-              actualTestPath: path.join('./tests', relativeTestPath),
-              expectedTestPath: path.join(
-                './tests',
-                path.relative(options.testRoot, expectedTestPath),
-              ),
-            };
-          }
-          // No error if the subdirectory matches and the test file is in the correct location
-          return null;
-        }
-
-        // Convert absolute paths to relative paths for display
-        const relativePaths = matchingSourceFiles.map((file) => {
-          const relativePath = path.relative(options.srcRoot, file);
-          return path.join('./src', relativePath);
-        });
-
-        return {
-          type: AnalysisErrorType.InvalidDirectoryStructure,
-          message: `Multiple matching source files found (${matchingSourceFiles.length}). Unable to determine correct source file`,
-          sourceFilePath: relativePaths.join(', '),
-          actualTestPath: path.join('./tests', relativeTestPath),
-        };
-      }
-
-      const sourceFilePath = matchingSourceFiles[0];
-      const expectedTestPath = this.calculateExpectedTestPath(sourceFilePath, options);
-
-      if (path.normalize(testFilePath) !== path.normalize(expectedTestPath)) {
-        // Convert absolute paths to relative paths for display
-        const relativeSourcePath = path.relative(options.srcRoot, sourceFilePath);
-        const relativeTestPath = path.relative(options.testRoot, testFilePath);
-        const relativeExpectedPath = path.relative(options.testRoot, expectedTestPath);
-
-        return {
-          type: AnalysisErrorType.InvalidDirectoryStructure,
-          message: 'Test file is in wrong directory',
-          sourceFilePath: path.join('./src', relativeSourcePath),
-          actualTestPath: path.join('./tests', relativeTestPath),
-          expectedTestPath: path.join('./tests', relativeExpectedPath),
-        };
-      }
-
-      return null;
-    } catch (error) {
-      console.error('Error in validateDirectoryStructure:', error);
-      return {
-        type: AnalysisErrorType.InvalidDirectoryStructure,
-        message: `Error validating directory structure: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      };
-    }
+  // Source files named like the base name, regardless of case
+  findMatchingSourceFiles(sourceFileMap: Map<string, string[]>, baseName: string): string[] {
+    return sourceFileMap.get(baseName.toLowerCase()) ?? [];
   }
 
   findFirstIncorrectSegment(
@@ -541,64 +844,59 @@ export class Analyzer {
   }
 
   calculateExpectedTestPath(sourceFilePath: string, options: AnalyzerOptions): string {
+    if (options.solution) {
+      const expectedPath = this.calculateExpectedTestPathInSolution(sourceFilePath, options);
+      if (expectedPath) {
+        return expectedPath;
+      }
+    }
+
     // Get the relative path from source root
     const relativePath = path.relative(options.srcRoot, sourceFilePath);
     const sourceSegments = relativePath.split(/[/\\]/);
 
     // Get the project name (first segment) and add test suffix
     const projectName = sourceSegments[0];
-    const testProjectName = projectName + options.testProjectSuffix;
+    const testProjectName = toTestProjectName(projectName, options);
 
     // Get the remaining path segments (excluding the project name and file name)
     const remainingPath = sourceSegments.slice(1, -1);
 
-    // Get the source file name and convert it to test file name
-    const sourceFileName = path.basename(sourceFilePath);
-    const testFileName =
-      sourceFileName.replace(path.extname(sourceFileName), '') +
-      options.testFileSuffix +
-      path.extname(sourceFileName);
-
     // Construct the expected test path
-    return path.join(options.testRoot, testProjectName, ...remainingPath, testFileName);
+    return path.join(
+      options.testRoot,
+      testProjectName,
+      ...remainingPath,
+      this.getTestFileName(sourceFilePath, options),
+    );
   }
 
-  async analyzeMissingTests(
-    sourceFiles: string[],
-    testFiles: string[],
+  // Mirrors the folders below the source project in the test project referencing it,
+  // null when the file is not part of a project with a test project
+  private calculateExpectedTestPathInSolution(
+    sourceFilePath: string,
     options: AnalyzerOptions,
-  ): Promise<AnalysisResult[]> {
-    const results: AnalysisResult[] = [];
-    const testFileMap = new Map<string, string>();
-
-    // Create a map of test base names (without suffix) to their full paths
-    for (const testFile of testFiles) {
-      const baseName = path
-        .basename(testFile, path.extname(testFile))
-        .replace(new RegExp(`${options.testFileSuffix}$`), '');
-      testFileMap.set(baseName, testFile);
+  ): string | null {
+    const layout = readSolution(options.solution!, options);
+    const sourceProject = findProject(layout, sourceFilePath, false);
+    const testProject = sourceProject && findTestProjects(layout, sourceProject, options)[0];
+    if (!sourceProject || !testProject) {
+      return null;
     }
 
-    for (const sourceFile of sourceFiles) {
-      const sourceBaseName = path.basename(sourceFile, path.extname(sourceFile));
-      const expectedTestFile = testFileMap.get(sourceBaseName);
-
-      if (!expectedTestFile) {
-        const expectedTestPath = this.calculateExpectedTestPath(sourceFile, options);
-
-        results.push({
-          testFile: path.basename(expectedTestPath),
-          testFilePath: path.resolve(expectedTestPath),
-          errors: [
-            {
-              type: AnalysisErrorType.MissingTest,
-              message: `Missing test file for source file: ${path.resolve(sourceFile)}`,
-            },
-          ],
-        });
-      }
-    }
+    const relativeDir = path.relative(
+      sourceProject.dir,
+      path.dirname(path.resolve(sourceFilePath)),
+    );
+    return path.join(testProject.dir, relativeDir, this.getTestFileName(sourceFilePath, options));
+  }
 
-    return results;
+  private getTestFileName(sourceFilePath: string, options: AnalyzerOptions): string {
+    const sourceFileName = path.basename(sourceFilePath);
+    return (
+      sourceFileName.replace(path.extname(sourceFileName), '') +
+      options.testFileSuffix +
+      path.extname(sourceFileName)
+    );
   }
 }
@@ -0,0 +1,167 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { AnalyzerOptions, DEFAULT_OPTIONS, LinterEventListener } from './types';
+import { Analyzer, IncrementalAnalysis, ProjectAnalysis } from './analyzer';
+import { ClassNameFix, DEFAULT_FIX_OPTIONS, FixOptions, Fixer, FixResult } from './fixer';
+import { applyBaseline, BaselineOutcome, loadBaseline, saveBaseline } from './baseline';
+import { generateJsonReport } from './json-reporter';
+import { getExitCode } from './severity';
+import { PlannedFix } from './fix-plan';
+
+// The package's library entry: analysis, fixes and reports without printing or exiting. The
+// CLI in index.ts is built on it
+export * from './types';
+export { Analyzer };
+export type { IncrementalAnalysis, ProjectAnalysis };
+export type { BaselineOutcome, ClassNameFix, FixOptions, FixResult, PlannedFix };
+export { createFixDiff, createFixPlan, saveFixPlan } from './fix-plan';
+export type { FixPlan } from './fix-plan';
+export { generateJsonReport } from './json-reporter';
+export { loadConfig } from './config';
+export { undoSession } from './journal';
+export { getExitCode };
+
+export interface AnalyzeSettings {
+  // Record every finding in options.baseline before it is applied
+  updateBaseline?: boolean;
+  // Kept for reanalyze after the run, a new analyzer by default
+  analyzer?: Analyzer;
+  onEvent?: LinterEventListener;
+}
+
+export interface Analysis extends ProjectAnalysis {
+  // Options of the run with the defaults filled in and absolute roots
+  options: AnalyzerOptions;
+  // Outcome of options.baseline, the results only hold the findings it does not know
+  baseline: BaselineOutcome | null;
+}
+
+export interface PlanSettings {
+  // What to rename when the test class is not named like its file, the class by default
+  classNameFix?: ClassNameFix;
+  // Also plan the missing test files, from this template
+  scaffold?: Partial<Pick<FixOptions, 'testFramework' | 'templatePath'>>;
+}
+
+// Fixes planned against the files as they were, see applyFixes
+export interface PendingFixes {
+  options: AnalyzerOptions;
+  fixes: PlannedFix[];
+}
+
+export interface ApplySettings {
+  // Where the applied fixes are journaled for undoSession, no journal when unset
+  journalDir?: string;
+  onEvent?: LinterEventListener;
+}
+
+export interface AppliedFixes {
+  applied: FixResult[];
+  // Journal session of the fixes, null without a journalDir
+  sessionId: string | null;
+}
+
+export async function analyze(
+  options: Partial<AnalyzerOptions> = {},
+  settings: AnalyzeSettings = {},
+): Promise<Analysis> {
+  const mergedOptions: AnalyzerOptions = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+    srcRoot: path.resolve(options.srcRoot ?? DEFAULT_OPTIONS.srcRoot),
+    testRoot: path.resolve(options.testRoot ?? DEFAULT_OPTIONS.testRoot),
+  };
+  if (settings.updateBaseline && !mergedOptions.baseline) {
+    throw new Error('updateBaseline requires a baseline file in options.baseline');
+  }
+  const emit = settings.onEvent ?? (() => {});
+  const analyzer = settings.analyzer ?? new Analyzer(emit);
+  const analysis = await analyzer.analyzeProject(mergedOptions);
+
+  let baseline: BaselineOutcome | null = null;
+  if (mergedOptions.baseline) {
+    const baselinePath = path.resolve(mergedOptions.baseline);
+    if (settings.updateBaseline) {
+      await saveBaseline(baselinePath, analysis.allResults, mergedOptions);
+      emit({
+        type: 'diagnostic',
+        level: 'info',
+        message: `Baseline updated with ${analysis.allResults.length} files: ${baselinePath}`,
+        filePath: baselinePath,
+      });
+    }
+    const { activeRuleIds } = analysis;
+    const knownResults = await loadBaseline(baselinePath);
+    // Entries are only fixed when no file has them anymore, changed or not
+    baseline = applyBaseline(analysis.allResults, knownResults, mergedOptions, activeRuleIds);
+    if (analysis.changedFiles !== null) {
+      baseline = {
+        ...applyBaseline(analysis.results, knownResults, mergedOptions, activeRuleIds),
+        fixed: baseline.fixed,
+      };
+    }
+  }
+
+  return {
+    ...analysis,
+    results: baseline ? baseline.results : analysis.results,
+    options: mergedOptions,
+    baseline,
+  };
+}
+
+// The fixes of --all, moved tests and rewritten namespaces, planned without changing a file
+export async function planFixes(
+  analysis: Analysis,
+  settings: PlanSettings = {},
+): Promise<PendingFixes> {
+  const fixer = new Fixer(analysis.options, {
+    dryRun: true,
+    classNameFix: settings.classNameFix,
+  });
+  await fixer.fixDirectoryStructure(analysis.results, analysis.options);
+  if (settings.scaffold) {
+    await fixer.scaffoldMissingTests(analysis.results, {
+      ...DEFAULT_FIX_OPTIONS,
+      ...settings.scaffold,
+    });
+  }
+  return { options: analysis.options, fixes: fixer.getPlannedFixes() };
+}
+
+// All or nothing: a file changed since the plan, or a fix that fails, rolls back the others
+export async function applyFixes(
+  plan: PendingFixes,
+  settings: ApplySettings = {},
+): Promise<AppliedFixes> {
+  const emit = settings.onEvent ?? (() => {});
+  const fixer = new Fixer(plan.options, { journalDir: settings.journalDir });
+  let completed = 0;
+  const applied = await fixer.applyPlannedFixes(plan.fixes, () =>
+    emit({ type: 'progress', stage: 'fixing', completed: ++completed, total: plan.fixes.length }),
+  );
+  await fixer.finishSession();
+  return { applied, sessionId: fixer.getSessionId() };
+}
+
+export function createJsonReport(analysis: Analysis): string {
+  return generateJsonReport(analysis.results, analysis.totalFiles, {
+    baseline: analysis.baseline ?? undefined,
+    suppressed: analysis.suppressed,
+    exemptions: analysis.exemptions,
+  });
+}
+
+export async function saveJsonReport(analysis: Analysis, outputPath: string): Promise<string> {
+  const resolvedPath = path.resolve(outputPath);
+
+  try {
+    await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+    await fs.writeFile(resolvedPath, createJsonReport(analysis), 'utf-8');
+    return resolvedPath;
+  } catch (error) {
+    throw new Error(
+      `Failed to save JSON report: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
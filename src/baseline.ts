@@ -0,0 +1,170 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { loadReport, saveReport } from './reporter';
+import { AnalysisError, AnalysisResult, AnalyzerOptions, RuleId } from './types';
+
+export interface FixedBaselineEntry {
+  fingerprint: string;
+  ruleId: RuleId;
+  testFile: string;
+  testFilePath: string;
+}
+
+export interface BaselineOutcome {
+  // Findings that are not in the baseline
+  results: AnalysisResult[];
+  suppressedCount: number;
+  // Baseline findings that no longer occur, the baseline can be shrunk by these
+  fixed: FixedBaselineEntry[];
+}
+
+function toPortablePath(filePath: string, root: string): string {
+  return path.relative(root, filePath).replaceAll(/\\/g, '/');
+}
+
+// Built from the rule and the paths relative to the roots, so the same finding on another
+// machine or in another checkout gets the same fingerprint
+export function computeFingerprint(
+  result: AnalysisResult,
+  error: AnalysisError,
+  options: AnalyzerOptions,
+): string {
+  const testPath = toPortablePath(error.actualTestPath ?? result.testFilePath, options.testRoot);
+  const sourcePaths = error.sourceFilePath
+    ? error.sourceFilePath
+        .split(',')
+        .map((sourcePath) => toPortablePath(sourcePath.trim(), options.srcRoot))
+        .sort()
+        .join(',')
+    : '';
+
+  return createHash('sha1')
+    .update([error.ruleId, sourcePaths, testPath].join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export function fingerprintResults(
+  results: AnalysisResult[],
+  options: AnalyzerOptions,
+): AnalysisResult[] {
+  return results.map((result) => ({
+    ...result,
+    errors: result.errors.map((error) => ({
+      ...error,
+      fingerprint: computeFingerprint(result, error, options),
+    })),
+  }));
+}
+
+// Paths in the baseline file are stored relative to the file itself so it can be committed
+function relocatePaths(
+  results: AnalysisResult[],
+  transform: (filePath: string) => string,
+): AnalysisResult[] {
+  const relocate = (filePath: string | undefined) =>
+    filePath === undefined
+      ? undefined
+      : filePath
+          .split(',')
+          .map((p) => transform(p.trim()))
+          .join(', ');
+
+  return results.map((result) => ({
+    ...result,
+    testFilePath: transform(result.testFilePath),
+    testRoot: undefined,
+    errors: result.errors.map((error) => ({
+      ...error,
+      sourceFilePath: relocate(error.sourceFilePath),
+      actualTestPath: relocate(error.actualTestPath),
+      expectedTestPath: relocate(error.expectedTestPath),
+    })),
+  }));
+}
+
+export async function saveBaseline(
+  baselinePath: string,
+  results: AnalysisResult[],
+  options: AnalyzerOptions,
+): Promise<string> {
+  const resolvedPath = path.resolve(baselinePath);
+  const baselineDir = path.dirname(resolvedPath);
+  const portableResults = relocatePaths(fingerprintResults(results, options), (filePath) =>
+    toPortablePath(filePath, baselineDir),
+  );
+
+  return saveReport(portableResults, {
+    outputDir: baselineDir,
+    projectName: path.basename(resolvedPath, path.extname(resolvedPath)),
+    fileName: path.basename(resolvedPath),
+  });
+}
+
+export async function loadBaseline(baselinePath: string): Promise<AnalysisResult[]> {
+  const resolvedPath = path.resolve(baselinePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Baseline file not found: ${resolvedPath} (create it with --update-baseline)`);
+  }
+
+  const baselineDir = path.dirname(resolvedPath);
+  return relocatePaths(await loadReport(resolvedPath), (filePath) =>
+    path.resolve(baselineDir, filePath),
+  );
+}
+
+export function applyBaseline(
+  results: AnalysisResult[],
+  baseline: AnalysisResult[],
+  options: AnalyzerOptions,
+  activeRuleIds: RuleId[],
+): BaselineOutcome {
+  const known = new Set<string>();
+  for (const result of baseline) {
+    for (const error of result.errors) {
+      if (error.fingerprint) {
+        known.add(error.fingerprint);
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  let suppressedCount = 0;
+  const remaining: AnalysisResult[] = [];
+
+  for (const result of fingerprintResults(results, options)) {
+    const errors = result.errors.filter((error) => {
+      seen.add(error.fingerprint!);
+      if (known.has(error.fingerprint!)) {
+        suppressedCount++;
+        return false;
+      }
+      return true;
+    });
+    if (errors.length > 0) {
+      remaining.push({ ...result, errors });
+    }
+  }
+
+  // Entries of rules that did not run this time cannot be told apart from fixed ones
+  const fixed: FixedBaselineEntry[] = [];
+  for (const result of baseline) {
+    for (const error of result.errors) {
+      if (
+        error.fingerprint &&
+        !seen.has(error.fingerprint) &&
+        activeRuleIds.includes(error.ruleId)
+      ) {
+        fixed.push({
+          fingerprint: error.fingerprint,
+          ruleId: error.ruleId,
+          testFile: result.testFile,
+          testFilePath: result.testFilePath,
+        });
+      }
+    }
+  }
+
+  return { results: remaining, suppressedCount, fixed };
+}
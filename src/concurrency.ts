@@ -0,0 +1,21 @@
+// File system calls in flight at once, enough to keep the disk busy without running out of
+// file handles on large repositories
+export const IO_CONCURRENCY = 32;
+
+// Maps the items with at most `limit` calls pending, results keep the order of the items
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
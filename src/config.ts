@@ -0,0 +1,394 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { AnalyzerOptions, RuleSettings, RulesConfig } from './types';
+import { findRule, RULES } from './rules';
+import { isRuleSeverity, RULE_SEVERITIES } from './severity';
+import { isSplitTestPattern } from './split-tests';
+import { resolveIgnorePattern } from './ignore';
+
+export const CONFIG_FILE_NAMES = [
+  '.testfilestructurelintrc.json',
+  '.testfilestructurelintrc.yaml',
+  '.testfilestructurelintrc.yml',
+];
+
+export const PACKAGE_JSON_CONFIG_KEY = 'testFilestructureLinter';
+
+export interface LoadedConfig {
+  filePath: string;
+  options: Partial<AnalyzerOptions>;
+}
+
+type FieldValidator = (value: unknown, field: string, source: string) => void;
+
+const expectString: FieldValidator = (value, field, source) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw invalidField(field, source, 'a non-empty string', value);
+  }
+};
+
+// For affixes, where empty means none
+const expectStringOrEmpty: FieldValidator = (value, field, source) => {
+  if (typeof value !== 'string') {
+    throw invalidField(field, source, 'a string', value);
+  }
+};
+
+const expectBoolean: FieldValidator = (value, field, source) => {
+  if (typeof value !== 'boolean') {
+    throw invalidField(field, source, 'a boolean', value);
+  }
+};
+
+const expectInteger: FieldValidator = (value, field, source) => {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw invalidField(field, source, 'an integer', value);
+  }
+};
+
+const expectSeverity: FieldValidator = (value, field, source) => {
+  if (!isRuleSeverity(value)) {
+    throw invalidField(field, source, `one of ${RULE_SEVERITIES.join(', ')}`, value);
+  }
+};
+
+const expectStringArray: FieldValidator = (value, field, source) => {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw invalidField(field, source, 'an array of strings', value);
+  }
+};
+
+const expectStringRecord: FieldValidator = (value, field, source) => {
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value) ||
+    Object.values(value).some((item) => typeof item !== 'string')
+  ) {
+    throw invalidField(field, source, 'an object of strings', value);
+  }
+};
+
+const expectRules: FieldValidator = (value, field, source) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidField(field, source, 'an object keyed by rule id', value);
+  }
+
+  for (const [ruleId, settings] of Object.entries(value)) {
+    const rule = findRule(ruleId);
+    if (!rule) {
+      const known = RULES.map((r) => r.id).join(', ');
+      throw new Error(
+        `Invalid config in ${source}: unknown rule "${field}.${ruleId}" (known: ${known})`,
+      );
+    }
+    // A bare severity is shorthand for { "severity": ... }
+    if (typeof settings === 'string') {
+      expectSeverity(settings, `${field}.${ruleId}`, source);
+      continue;
+    }
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      throw invalidField(`${field}.${ruleId}`, source, 'a severity or an object', settings);
+    }
+
+    for (const [key, setting] of Object.entries(settings)) {
+      const settingField = `${field}.${ruleId}.${key}`;
+      if (key === 'enabled') {
+        expectBoolean(setting, settingField, source);
+      } else if (key === 'severity') {
+        expectSeverity(setting, settingField, source);
+      } else if (key === 'options') {
+        expectRuleOptions(setting, settingField, source, rule.defaultOptions);
+      } else {
+        throw new Error(`Invalid config in ${source}: unknown rule setting "${settingField}"`);
+      }
+    }
+  }
+};
+
+// Rule options are checked against the type of the rule's own defaults
+function expectRuleOptions(
+  value: unknown,
+  field: string,
+  source: string,
+  defaults: Record<string, unknown>,
+): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidField(field, source, 'an object', value);
+  }
+
+  for (const [key, option] of Object.entries(value)) {
+    if (!Object.prototype.hasOwnProperty.call(defaults, key)) {
+      throw new Error(`Invalid config in ${source}: unknown rule option "${field}.${key}"`);
+    }
+    const expected = defaults[key];
+    if (Array.isArray(expected)) {
+      expectStringArray(option, `${field}.${key}`, source);
+    } else if (typeof expected === 'object' && expected !== null) {
+      expectStringRecord(option, `${field}.${key}`, source);
+    } else if (typeof option !== typeof expected) {
+      throw invalidField(`${field}.${key}`, source, `a ${typeof expected}`, option);
+    }
+  }
+}
+
+const expectSplitTestPatterns: FieldValidator = (value, field, source) => {
+  expectStringArray(value, field, source);
+  const invalid = (value as string[]).find((pattern) => !isSplitTestPattern(pattern));
+  if (invalid !== undefined) {
+    throw new Error(
+      `Invalid config in ${source}: "${field}" pattern "${invalid}" must contain {Source} and {Topic} once`,
+    );
+  }
+};
+
+const FLAVOUR_FIELDS: Record<string, FieldValidator> = {
+  name: expectString,
+  prefix: expectStringOrEmpty,
+  suffix: expectStringOrEmpty,
+  rules: expectRules,
+};
+
+const expectTestProjectFlavours: FieldValidator = (value, field, source) => {
+  if (!Array.isArray(value)) {
+    throw invalidField(field, source, 'an array of flavours', value);
+  }
+
+  for (const [index, flavour] of value.entries()) {
+    const flavourField = `${field}[${index}]`;
+    if (typeof flavour !== 'object' || flavour === null || Array.isArray(flavour)) {
+      throw invalidField(flavourField, source, 'an object', flavour);
+    }
+    if (!('name' in flavour)) {
+      throw new Error(`Invalid config in ${source}: "${flavourField}.name" is required`);
+    }
+    if (!flavour.prefix && !flavour.suffix) {
+      throw new Error(`Invalid config in ${source}: "${flavourField}" needs a prefix or a suffix`);
+    }
+    for (const [key, setting] of Object.entries(flavour)) {
+      if (!Object.prototype.hasOwnProperty.call(FLAVOUR_FIELDS, key)) {
+        throw new Error(
+          `Invalid config in ${source}: unknown flavour setting "${flavourField}.${key}"`,
+        );
+      }
+      FLAVOUR_FIELDS[key](setting, `${flavourField}.${key}`, source);
+    }
+  }
+};
+
+// Every AnalyzerOptions field must be listed here, so adding an option without
+// teaching the config loader about it is a compile error
+const OPTION_VALIDATORS: Record<keyof AnalyzerOptions, FieldValidator> = {
+  srcRoot: expectString,
+  testRoot: expectString,
+  fileExtension: expectString,
+  validateFileName: expectBoolean,
+  validateDirectoryStructure: expectBoolean,
+  validateMissingTests: expectBoolean,
+  testFileSuffix: expectString,
+  testProjectSuffix: expectStringOrEmpty,
+  testProjectPrefix: expectStringOrEmpty,
+  testProjectNames: expectStringRecord,
+  testProjectFlavours: expectTestProjectFlavours,
+  splitTestPatterns: expectSplitTestPatterns,
+  ignoreDirectories: expectStringArray,
+  ignoreFiles: expectStringArray,
+  sourceIgnorePatterns: expectStringArray,
+  testIgnorePatterns: expectStringArray,
+  respectGitignore: expectBoolean,
+  rules: expectRules,
+  maxWarnings: expectInteger,
+  baseline: expectString,
+  gitMove: expectBoolean,
+  solution: expectString,
+  cache: expectBoolean,
+  cacheDir: expectString,
+  changedSince: expectString,
+  staged: expectBoolean,
+};
+
+// Options holding paths are resolved relative to the config file, not the cwd
+const PATH_OPTIONS: (keyof AnalyzerOptions)[] = [
+  'srcRoot',
+  'testRoot',
+  'baseline',
+  'solution',
+  'cacheDir',
+];
+// and so are the anchored ones of these patterns
+const PATTERN_OPTIONS = ['sourceIgnorePatterns', 'testIgnorePatterns'] as const;
+
+function invalidField(field: string, source: string, expected: string, value: unknown): Error {
+  const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  return new Error(`Invalid config in ${source}: "${field}" must be ${expected}, got ${actual}`);
+}
+
+export function validateConfig(raw: unknown, source: string): Partial<AnalyzerOptions> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid config in ${source}: expected an object at the top level`);
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!Object.prototype.hasOwnProperty.call(OPTION_VALIDATORS, field)) {
+      const known = Object.keys(OPTION_VALIDATORS).join(', ');
+      throw new Error(`Invalid config in ${source}: unknown option "${field}" (known: ${known})`);
+    }
+    OPTION_VALIDATORS[field as keyof AnalyzerOptions](value, field, source);
+  }
+
+  const options = raw as Partial<AnalyzerOptions>;
+  if (options.rules) {
+    options.rules = normalizeRules(options.rules as Record<string, RuleSettings | string>);
+  }
+  for (const flavour of options.testProjectFlavours ?? []) {
+    if (flavour.rules) {
+      flavour.rules = normalizeRules(flavour.rules as Record<string, RuleSettings | string>);
+    }
+  }
+  return options;
+}
+
+function normalizeRules(rules: Record<string, RuleSettings | string>): RulesConfig {
+  return Object.fromEntries(
+    Object.entries(rules).map(([ruleId, settings]) => [
+      ruleId,
+      typeof settings === 'string' ? { severity: settings } : settings,
+    ]),
+  ) as RulesConfig;
+}
+
+function parseConfigFile(filePath: string): unknown {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Failed to read config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  try {
+    if (path.basename(filePath) === 'package.json') {
+      return (JSON.parse(content) as Record<string, unknown>)[PACKAGE_JSON_CONFIG_KEY];
+    }
+    const extension = path.extname(filePath).toLowerCase();
+    return extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
+
+function hasPackageJsonConfig(packageJsonPath: string): boolean {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    return packageJson?.[PACKAGE_JSON_CONFIG_KEY] !== undefined;
+  } catch {
+    // An unreadable package.json is not ours to report on
+    return false;
+  }
+}
+
+export function findConfigFile(startDir: string = process.cwd()): string | undefined {
+  let currentDir = path.resolve(startDir);
+  let parentDir = path.dirname(currentDir);
+
+  for (;;) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = path.join(currentDir, fileName);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const packageJsonPath = path.join(currentDir, 'package.json');
+    if (fs.existsSync(packageJsonPath) && hasPackageJsonConfig(packageJsonPath)) {
+      return packageJsonPath;
+    }
+
+    if (parentDir === currentDir) {
+      return undefined;
+    }
+    currentDir = parentDir;
+    parentDir = path.dirname(currentDir);
+  }
+}
+
+export function loadConfigFile(filePath: string): LoadedConfig {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Config file not found: ${resolvedPath}`);
+  }
+
+  const raw = parseConfigFile(resolvedPath);
+  if (raw === undefined && path.basename(resolvedPath) === 'package.json') {
+    throw new Error(`No "${PACKAGE_JSON_CONFIG_KEY}" key found in ${resolvedPath}`);
+  }
+
+  const options = validateConfig(raw ?? {}, resolvedPath);
+  const configDir = path.dirname(resolvedPath);
+  for (const key of PATH_OPTIONS) {
+    const value = options[key];
+    if (typeof value === 'string') {
+      Object.assign(options, { [key]: path.resolve(configDir, value) });
+    }
+  }
+  for (const key of PATTERN_OPTIONS) {
+    options[key] = options[key]?.map((pattern) => resolveIgnorePattern(pattern, configDir));
+  }
+
+  return { filePath: resolvedPath, options };
+}
+
+// Loads the explicit config file when given, otherwise the first one found walking up from cwd
+export function loadConfig(
+  explicitPath?: string,
+  cwd: string = process.cwd(),
+): LoadedConfig | null {
+  if (explicitPath) {
+    return loadConfigFile(path.resolve(cwd, explicitPath));
+  }
+
+  const discovered = findConfigFile(cwd);
+  return discovered ? loadConfigFile(discovered) : null;
+}
+
+// Layers the options: defaults, then the config file, then whatever was passed on the command line
+export function mergeOptions(
+  defaults: AnalyzerOptions,
+  config: Partial<AnalyzerOptions> | undefined,
+  cliOverrides: Partial<AnalyzerOptions>,
+): AnalyzerOptions {
+  const merged: AnalyzerOptions = { ...defaults, rules: { ...defaults.rules } };
+
+  for (const layer of [config ?? {}, cliOverrides]) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined && key !== 'rules') {
+        Object.assign(merged, { [key]: value });
+      }
+    }
+    // Rule settings merge per rule, so a CLI severity does not drop the rule's configured options
+    if (layer.rules) {
+      merged.rules = mergeRules(merged.rules, layer.rules);
+    }
+  }
+
+  return merged;
+}
+
+export function mergeRules(base: RulesConfig, override: RulesConfig): RulesConfig {
+  const merged: RulesConfig = { ...base };
+  for (const [ruleId, settings] of Object.entries(override) as [
+    keyof RulesConfig,
+    RuleSettings,
+  ][]) {
+    merged[ruleId] = { ...base[ruleId], ...settings };
+    // Options merge per key, so overriding one option keeps the others
+    if (base[ruleId]?.options && settings.options) {
+      merged[ruleId].options = { ...base[ruleId].options, ...settings.options };
+    }
+  }
+  return merged;
+}
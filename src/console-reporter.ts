@@ -1,7 +1,33 @@
 import chalk from 'chalk';
-import { AnalysisResult, AnalysisErrorType } from './types';
+import {
+  AnalysisResult,
+  AnalysisErrorType,
+  RepairSuggestion,
+  Severity,
+  SourceResolution,
+} from './types';
+import { countBySeverity } from './severity';
+import { BaselineOutcome } from './baseline';
+import { createFixDiff, PlannedFix } from './fix-plan';
+import { FindingChange, WatchUpdate } from './watch';
 import * as path from 'node:path';
 
+const SEVERITY_COLORS: Record<Severity, chalk.Chalk> = {
+  error: chalk.red,
+  warning: chalk.yellow,
+  info: chalk.blue,
+};
+
+// New and resolved findings listed per watch redraw, the counts cover the rest
+const WATCH_LIST_LIMIT = 20;
+
+const RESOLUTION_REASONS: Record<SourceResolution['reason'], string> = {
+  'qualified-name': 'its qualified name',
+  'enclosing-namespace': 'the enclosing namespace',
+  using: 'a using directive',
+  'mirrored-namespace': 'the test namespace',
+};
+
 export class ConsoleReporter {
   reportResults(results: AnalysisResult[], totalFiles: number, isInteractive = false): void {
     if (results.length === 0) {
@@ -17,6 +43,132 @@ export class ConsoleReporter {
 
     const errorCounts = this.processAndDisplayResults(results);
     this.displaySummary(errorCounts, results.length, totalFiles);
+    this.displaySeveritySummary(results);
+  }
+
+  reportSuppressed(suppressedCount: number): void {
+    if (suppressedCount > 0) {
+      console.log(chalk.gray(`  🔇 Suppressed by comments: ${chalk.white(suppressedCount)}`));
+    }
+  }
+
+  reportExemptions(exemptionCount: number): void {
+    if (exemptionCount > 0) {
+      console.log(chalk.gray(`  🙈 Exempt from missing tests: ${chalk.white(exemptionCount)}`));
+    }
+  }
+
+  reportBaseline(outcome: BaselineOutcome): void {
+    console.log(chalk.bold('\nBaseline:'));
+    console.log(
+      chalk.gray(`  🗃️  Known issues suppressed: ${chalk.white(outcome.suppressedCount)}`),
+    );
+
+    if (outcome.fixed.length === 0) {
+      return;
+    }
+
+    console.log(
+      chalk.green(`  ✓ ${outcome.fixed.length} baseline entries are fixed`) +
+        chalk.gray(' (run with --update-baseline to remove them):'),
+    );
+    for (const entry of outcome.fixed) {
+      const testPath = this.formatToStandardPath(entry.testFilePath, 'tests');
+      console.log(chalk.gray(`    - ${entry.ruleId}: ${testPath}`));
+    }
+  }
+
+  reportFixPlan(fixes: PlannedFix[]): void {
+    console.log(chalk.bold('\nDry run, no files were changed.'));
+    if (fixes.length === 0) {
+      console.log(chalk.gray('  Nothing to fix'));
+      return;
+    }
+
+    console.log(chalk.bold(`\nPlanned changes (${fixes.length}):`));
+    for (const fix of fixes) {
+      const from = path.relative(process.cwd(), fix.from);
+      const to = path.relative(process.cwd(), fix.to);
+      if (fix.action === 'create') {
+        console.log(chalk.gray(`  ${chalk.white('create')} ${to} (for ${from})`));
+      } else if (fix.action === 'rewrite') {
+        console.log(chalk.gray(`  ${chalk.white('rewrite')} ${to}`));
+      } else {
+        console.log(chalk.gray(`  ${chalk.white(fix.action)} ${from} → ${to}`));
+      }
+    }
+
+    for (const fix of fixes) {
+      const diff = createFixDiff(fix);
+      if (!diff) {
+        continue;
+      }
+      console.log();
+      for (const line of diff.trimEnd().split('\n')) {
+        console.log(this.colorDiffLine(line));
+      }
+    }
+  }
+
+  // Compact enough to redraw after every change, the full report is the first run's
+  reportWatchUpdate(update: WatchUpdate): void {
+    if (process.stdout.isTTY) {
+      console.clear();
+    }
+    const { added, resolved } = update.delta;
+    const issueCount = update.results.reduce((count, result) => count + result.errors.length, 0);
+
+    console.log(
+      chalk.gray(
+        `\n[${new Date().toLocaleTimeString()}] Re-checked ${update.reanalyzedTests} test files`,
+      ),
+    );
+    const status =
+      issueCount === 0
+        ? chalk.green(`✓ No issues in ${update.totalFiles} files`)
+        : chalk.yellow(
+            `! ${issueCount} issues in ${update.results.length} of ${update.totalFiles} files`,
+          );
+    console.log(
+      `${status} ${chalk.gray('(')}${chalk.red(`+${added.length} new`)}${chalk.gray(', ')}` +
+        `${chalk.green(`-${resolved.length} resolved`)}${chalk.gray(')')}`,
+    );
+
+    this.displayFindingChanges(added, (line) => chalk.red(`  + ${line}`));
+    this.displayFindingChanges(resolved, (line) => chalk.green(`  - ${line}`));
+    for (const file of update.unreadableFiles) {
+      console.log(chalk.yellow(`  ⚠ Could not read: ${path.relative(process.cwd(), file)}`));
+    }
+    console.log(chalk.gray('\nWatching for changes, press Ctrl+C to stop'));
+  }
+
+  private displayFindingChanges(changes: FindingChange[], format: (line: string) => string): void {
+    for (const { result, error } of changes.slice(0, WATCH_LIST_LIMIT)) {
+      const testPath = this.formatToStandardPath(
+        error.actualTestPath ?? result.testFilePath,
+        'tests',
+      );
+      console.log(format(`${error.ruleId}: ${testPath}`));
+    }
+    if (changes.length > WATCH_LIST_LIMIT) {
+      console.log(chalk.gray(`    … and ${changes.length - WATCH_LIST_LIMIT} more`));
+    }
+  }
+
+  private colorDiffLine(line: string): string {
+    if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('===')) {
+      return chalk.bold(line);
+    }
+    if (line.startsWith('@@')) {
+      return chalk.cyan(line);
+    }
+    if (line.startsWith('+')) {
+      return chalk.green(line);
+    }
+    if (line.startsWith('-')) {
+      return chalk.red(line);
+    }
+    return line;
   }
 
   private reportNoIssues(totalFiles: number): void {
@@ -28,15 +180,24 @@ export class ConsoleReporter {
     directoryStructure: number;
     filename: number;
     missingTests: number;
+    unusedSuppressions: number;
+    classNames: number;
+    namespaces: number;
+    orphanedTests: number;
   } {
     const errorCounts = {
       directoryStructure: 0,
       filename: 0,
       missingTests: 0,
+      unusedSuppressions: 0,
+      classNames: 0,
+      namespaces: 0,
+      orphanedTests: 0,
     };
 
     for (const result of results) {
-      console.log(chalk.white(result.testFile));
+      const flavour = result.flavour ? chalk.gray(` (${result.flavour})`) : '';
+      console.log(chalk.white(result.testFile) + flavour);
       this.processResultErrors(result, errorCounts);
       console.log('');
     }
@@ -46,10 +207,19 @@ export class ConsoleReporter {
 
   private processResultErrors(
     result: AnalysisResult,
-    errorCounts: { directoryStructure: number; filename: number; missingTests: number },
+    errorCounts: {
+      directoryStructure: number;
+      filename: number;
+      missingTests: number;
+      unusedSuppressions: number;
+      classNames: number;
+      namespaces: number;
+      orphanedTests: number;
+    },
   ): void {
     for (const error of result.errors) {
-      console.log(chalk.red(`  ${error.type}`));
+      const color = SEVERITY_COLORS[error.severity];
+      console.log(color(`  ${error.type}`) + chalk.gray(` [${error.severity}]`));
       this.updateErrorCounts(error.type, errorCounts);
       this.displayErrorDetails(error, result);
     }
@@ -57,7 +227,15 @@ export class ConsoleReporter {
 
   private updateErrorCounts(
     errorType: AnalysisErrorType,
-    errorCounts: { directoryStructure: number; filename: number; missingTests: number },
+    errorCounts: {
+      directoryStructure: number;
+      filename: number;
+      missingTests: number;
+      unusedSuppressions: number;
+      classNames: number;
+      namespaces: number;
+      orphanedTests: number;
+    },
   ): void {
     if (errorType === AnalysisErrorType.InvalidDirectoryStructure) {
       errorCounts.directoryStructure++;
@@ -65,6 +243,14 @@ export class ConsoleReporter {
       errorCounts.filename++;
     } else if (errorType === AnalysisErrorType.MissingTest) {
       errorCounts.missingTests++;
+    } else if (errorType === AnalysisErrorType.UnusedSuppression) {
+      errorCounts.unusedSuppressions++;
+    } else if (errorType === AnalysisErrorType.ClassNameMismatch) {
+      errorCounts.classNames++;
+    } else if (errorType === AnalysisErrorType.NamespaceMismatch) {
+      errorCounts.namespaces++;
+    } else if (errorType === AnalysisErrorType.OrphanedTest) {
+      errorCounts.orphanedTests++;
     }
   }
 
@@ -75,6 +261,9 @@ export class ConsoleReporter {
       actualTestPath?: string;
       expectedTestPath?: string;
       message: string;
+      suggestions?: RepairSuggestion[];
+      sourceResolution?: SourceResolution;
+      sourceRenamedFrom?: string;
     },
     result: AnalysisResult,
   ): void {
@@ -88,6 +277,29 @@ export class ConsoleReporter {
       this.displayDirectoryStructureError(error, result);
     } else if (error.type === AnalysisErrorType.MissingTest) {
       this.displayMissingTestError(error, result);
+    } else if (error.type === AnalysisErrorType.UnusedSuppression) {
+      console.log(chalk.gray(`  💬 ${error.message}`));
+    } else if (
+      error.type === AnalysisErrorType.ClassNameMismatch ||
+      error.type === AnalysisErrorType.NamespaceMismatch
+    ) {
+      this.displayDirectoryStructureError(error, result);
+      console.log(chalk.gray(`  💬 ${error.message}`));
+    } else if (error.type === AnalysisErrorType.OrphanedTest) {
+      this.displayDirectoryStructureError(error, result);
+      console.log(chalk.gray(`  💬 ${error.message}`));
+      this.displaySuggestions(error.suggestions ?? []);
+    }
+  }
+
+  private displaySuggestions(suggestions: RepairSuggestion[]): void {
+    for (const suggestion of suggestions) {
+      const sourcePath = this.formatToStandardPath(suggestion.sourceFilePath, 'src');
+      const reason =
+        suggestion.reason === 'git-rename'
+          ? 'renamed in git'
+          : `similar name, ${Math.round(suggestion.similarity * 100)}%`;
+      console.log(chalk.gray(`  💡 Maybe:    ${sourcePath} (${reason})`));
     }
   }
 
@@ -104,7 +316,10 @@ export class ConsoleReporter {
     }
   }
 
-  private displayMissingTestError(error: { message: string }, result: AnalysisResult): void {
+  private displayMissingTestError(
+    error: { message: string; sourceRenamedFrom?: string },
+    result: AnalysisResult,
+  ): void {
     const sourceFile = new RegExp(/source file: (.+)$/).exec(error.message)?.[1];
     if (sourceFile) {
       const sourceRelative = this.getRelativePath(
@@ -112,6 +327,7 @@ export class ConsoleReporter {
         result.testRoot ? path.dirname(result.testRoot) : undefined,
       );
       console.log(chalk.gray(`  📄 Source:   ${sourceRelative}`));
+      this.displayRename(error.sourceRenamedFrom);
       console.log(chalk.gray(`  🧪 Missing test file`));
     } else {
       console.log(chalk.gray(`  🧪 ${error.message}`));
@@ -119,7 +335,15 @@ export class ConsoleReporter {
   }
 
   private displaySummary(
-    errorCounts: { directoryStructure: number; filename: number; missingTests: number },
+    errorCounts: {
+      directoryStructure: number;
+      filename: number;
+      missingTests: number;
+      unusedSuppressions: number;
+      classNames: number;
+      namespaces: number;
+      orphanedTests: number;
+    },
     totalIssues: number,
     totalFiles: number,
   ): void {
@@ -138,6 +362,20 @@ export class ConsoleReporter {
     if (errorCounts.missingTests > 0) {
       console.log(chalk.gray(`  ❓ Missing tests: ${chalk.yellow(errorCounts.missingTests)}`));
     }
+    if (errorCounts.classNames > 0) {
+      console.log(chalk.gray(`  🏷️  Class name issues: ${chalk.yellow(errorCounts.classNames)}`));
+    }
+    if (errorCounts.namespaces > 0) {
+      console.log(chalk.gray(`  🧭 Namespace issues: ${chalk.yellow(errorCounts.namespaces)}`));
+    }
+    if (errorCounts.orphanedTests > 0) {
+      console.log(chalk.gray(`  👻 Orphaned tests: ${chalk.yellow(errorCounts.orphanedTests)}`));
+    }
+    if (errorCounts.unusedSuppressions > 0) {
+      console.log(
+        chalk.gray(`  🔕 Unused suppressions: ${chalk.yellow(errorCounts.unusedSuppressions)}`),
+      );
+    }
 
     console.log(chalk.gray(`  📊 Total files with issues: ${chalk.yellow(totalIssues)}`));
     console.log(chalk.gray(`  📊 Total files analyzed: ${chalk.white(totalFiles)}`));
@@ -148,11 +386,24 @@ export class ConsoleReporter {
     }
   }
 
+  private displaySeveritySummary(results: AnalysisResult[]): void {
+    const counts = countBySeverity(results);
+    console.log(
+      chalk.gray(
+        `  🚦 Severity: ${SEVERITY_COLORS.error(`${counts.error} errors`)}, ` +
+          `${SEVERITY_COLORS.warning(`${counts.warning} warnings`)}, ` +
+          `${SEVERITY_COLORS.info(`${counts.info} info`)}`,
+      ),
+    );
+  }
+
   private displaySourceAndTestPaths(error: {
     sourceFilePath?: string;
     actualTestPath?: string;
     expectedTestPath?: string;
     message: string;
+    sourceResolution?: SourceResolution;
+    sourceRenamedFrom?: string;
   }): void {
     const paths = [error.sourceFilePath!];
     if (error.actualTestPath) paths.push(error.actualTestPath);
@@ -178,6 +429,13 @@ export class ConsoleReporter {
     } else {
       const sourceRelative = this.getRelativePath(error.sourceFilePath!, commonBasePath);
       console.log(chalk.gray(`  📄 Source:   ${sourceRelative}`));
+      if (error.sourceResolution) {
+        const { confidence, reason } = error.sourceResolution;
+        console.log(
+          chalk.gray(`  🎯 Resolved: by ${RESOLUTION_REASONS[reason]}, ${confidence} confidence`),
+        );
+      }
+      this.displayRename(error.sourceRenamedFrom);
     }
 
     if (error.actualTestPath && error.expectedTestPath) {
@@ -196,6 +454,14 @@ export class ConsoleReporter {
     }
   }
 
+  // Why a test that did not change is now misplaced or missing
+  private displayRename(sourceRenamedFrom?: string): void {
+    if (sourceRenamedFrom) {
+      const previousPath = this.formatToStandardPath(sourceRenamedFrom, 'src');
+      console.log(chalk.gray(`  🔀 Renamed:  from ${previousPath} in git`));
+    }
+  }
+
   private extractIncorrectSegment(message: string): string | null {
     const regex = /incorrect path segment: '([^']+)'/;
     const match = regex.exec(message);
@@ -0,0 +1,295 @@
+// Just enough C# reading for the linter: comments and string literals are blanked out first
+// so declarations mentioned in them are not picked up
+
+export function stripCommentsAndStrings(content: string): string {
+  // Replaced characters keep their length so offsets and line numbers still line up
+  const blank = (text: string) => text.replaceAll(/[^\n]/g, ' ');
+
+  return content.replaceAll(
+    /\/\*[\s\S]*?\*\/|\/\/[^\n]*|@"(?:[^"]|"")*"|\$?"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)+'/g,
+    blank,
+  );
+}
+
+export function extractNamespace(content: string): string | null {
+  const code = stripCommentsAndStrings(content);
+  const match = /^\s*namespace\s+([\w.]+)\s*[;{]/m.exec(code);
+  return match ? match[1] : null;
+}
+
+export interface UsingDirective {
+  // The namespace, or the type for aliases and using static
+  target: string;
+  alias?: string;
+  isStatic: boolean;
+}
+
+// using directives of the file, global ones included; using statements and declarations in
+// method bodies do not match
+export function findUsings(content: string): UsingDirective[] {
+  const code = stripCommentsAndStrings(content);
+  return [
+    ...code.matchAll(/^[ \t]*(?:global\s+)?using\s+(static\s+)?(?:(\w+)\s*=\s*)?([\w.]+)\s*;/gm),
+  ].map(([, isStatic, alias, target]) => ({
+    target,
+    ...(alias && { alias }),
+    isStatic: Boolean(isStatic),
+  }));
+}
+
+export type TypeKind = 'class' | 'struct' | 'interface' | 'enum' | 'record' | 'delegate';
+
+// record class and record struct are records, the generic constraints class and struct are
+// never followed by a name
+const TYPE_KEYWORD_REGEX =
+  /\brecord\s+(?:class|struct)\b|\b(?:record|class|struct|interface|enum|delegate)\b(?=\s+[A-Za-z_@])/g;
+
+// Kinds of the types declared in the file, nested ones included
+export function findTypeKinds(content: string): TypeKind[] {
+  const code = stripCommentsAndStrings(content);
+  return [...code.matchAll(TYPE_KEYWORD_REGEX)].map(
+    ([keyword]) => (keyword.startsWith('record') ? 'record' : keyword) as TypeKind,
+  );
+}
+
+// An [ExcludeFromCodeCoverage] attribute on a type, members marked with it do not count
+export function hasExcludeFromCodeCoverage(content: string): boolean {
+  const code = stripCommentsAndStrings(content);
+  return /\[[^\]]*\bExcludeFromCodeCoverage(?:Attribute)?\b[^\]]*\]\s*(?:\[[^\]]*\]\s*)*(?:(?:public|internal|private|protected|static|sealed|abstract|partial|file|readonly)\s+)*(?:record|class|struct)\b/.test(
+    code,
+  );
+}
+
+// The <auto-generated> marker tools put in the comment header of generated files
+export function isAutoGenerated(content: string): boolean {
+  const header = /^(?:\s*(?:\/\/[^\n]*|\/\*[\s\S]*?\*\/))*/.exec(content)?.[0] ?? '';
+  return /<auto-generated\b/i.test(header);
+}
+
+export interface ClassDeclaration {
+  name: string;
+  line: number;
+  isPartial: boolean;
+  // Declared inside another class
+  isNested: boolean;
+}
+
+const CLASS_TOKEN_REGEX =
+  /\bnamespace\s+[\w.]+\s*([{;])|((?:\b(?:public|internal|private|protected|static|sealed|abstract|partial|file|unsafe|new)\s+)*)\bclass\s+(\w+)|[{};]/g;
+
+// Walks the braces to tell top-level classes from nested ones, block-scoped and file-scoped
+// namespaces alike
+export function findClassDeclarations(content: string): ClassDeclaration[] {
+  const code = stripCommentsAndStrings(content);
+  const declarations: ClassDeclaration[] = [];
+  // What each open brace belongs to
+  const blocks: ('namespace' | 'class' | 'other')[] = [];
+  let pending: 'class' | null = null;
+
+  for (const match of code.matchAll(CLASS_TOKEN_REGEX)) {
+    const [token, namespaceEnd, modifiers, className] = match;
+    if (namespaceEnd === '{') {
+      blocks.push('namespace');
+    } else if (className) {
+      declarations.push({
+        name: className,
+        line: code.slice(0, match.index).split('\n').length,
+        isPartial: /\bpartial\b/.test(modifiers ?? ''),
+        isNested: blocks.includes('class'),
+      });
+      pending = 'class';
+    } else if (token === '{') {
+      blocks.push(pending ?? 'other');
+      pending = null;
+    } else if (token === '}') {
+      blocks.pop();
+    } else if (token === ';') {
+      // Declarations without a body, e.g. a primary constructor class ending in ;
+      pending = null;
+    }
+  }
+
+  return declarations;
+}
+
+// Renames the declaration of a class and its constructors, uses of the name elsewhere are
+// left alone since they may just as well refer to another type of the same name
+export function renameClass(content: string, oldName: string, newName: string): string {
+  const code = stripCommentsAndStrings(content);
+  const name = escapeRegExp(oldName);
+  const declarationRegex = new RegExp(
+    String.raw`(\bclass\s+|~|\b(?:public|private|protected|internal|static)\s+)${name}\b`,
+    'g',
+  );
+
+  let renamed = '';
+  let lastIndex = 0;
+  for (const match of code.matchAll(declarationRegex)) {
+    const isClass = match[1].startsWith('class');
+    const nameIndex = match.index + match[1].length;
+    // Outside the class keyword the name only counts as a constructor or finalizer
+    if (!isClass && !/^\s*\(/.test(code.slice(nameIndex + oldName.length))) {
+      continue;
+    }
+    renamed += content.slice(lastIndex, nameIndex) + newName;
+    lastIndex = nameIndex + oldName.length;
+  }
+
+  return renamed + content.slice(lastIndex);
+}
+
+// Renames the first namespace declaration, block-scoped or file-scoped alike
+export function rewriteNamespace(content: string, newNamespace: string): string {
+  const code = stripCommentsAndStrings(content);
+  const match = /^(\s*namespace\s+)([\w.]+)\s*[;{]/m.exec(code);
+  if (!match) {
+    return content;
+  }
+
+  const nameIndex = match.index + match[1].length;
+  return content.slice(0, nameIndex) + newNamespace + content.slice(nameIndex + match[2].length);
+}
+
+// Matches the text literally inside a regular expression
+export function escapeRegExp(text: string): string {
+  return text.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`);
+}
+
+// Replaces the matches the regex finds in the code, i.e. outside comments and strings
+function replaceInCode(
+  content: string,
+  regex: RegExp,
+  replacer: (match: RegExpMatchArray) => string,
+): string {
+  const code = stripCommentsAndStrings(content);
+  let replaced = '';
+  let lastIndex = 0;
+
+  for (const match of code.matchAll(regex)) {
+    replaced += content.slice(lastIndex, match.index) + replacer(match);
+    lastIndex = match.index + match[0].length;
+  }
+
+  return replaced + content.slice(lastIndex);
+}
+
+// How the types declared in a file changed with a fix
+export interface TypeChange {
+  oldNamespace: string | null;
+  newNamespace: string | null;
+  // Old class name -> new class name, classes that kept their name map to themselves
+  classes: Map<string, string>;
+}
+
+function isInNamespace(namespace: string | null, container: string): boolean {
+  return namespace === container || (namespace?.startsWith(`${container}.`) ?? false);
+}
+
+function addUsing(content: string, namespace: string): string {
+  const code = stripCommentsAndStrings(content);
+  const usings = [...code.matchAll(/^[ \t]*(?:global\s+)?using\s+[\w.=\s]+;[^\S\n]*\n?/gm)];
+  const namespaceIndex = /^\s*namespace\s/m.exec(code)?.index ?? code.length;
+  const lastUsing = usings.filter((u) => u.index < namespaceIndex).pop();
+
+  if (!lastUsing) {
+    return `using ${namespace};\n${content}`;
+  }
+  const insertAt = lastUsing.index + lastUsing[0].length;
+  const newline = lastUsing[0].endsWith('\n') ? '' : '\n';
+  return `${content.slice(0, insertAt)}${newline}using ${namespace};\n${content.slice(insertAt)}`;
+}
+
+// Updates a file that may refer to the changed types: type references, qualified names and
+// using directives. Pass keepOldNamespace when other types still live in the old namespace,
+// the using of the new namespace is then added next to the old one instead of replacing it
+export function updateTypeReferences(
+  content: string,
+  change: TypeChange,
+  keepOldNamespace: boolean,
+): string {
+  const code = stripCommentsAndStrings(content);
+  const { oldNamespace, newNamespace } = change;
+  const namespaceChanged = Boolean(oldNamespace && newNamespace && oldNamespace !== newNamespace);
+  const usingRegex = (namespace: string, flags = 'm') =>
+    new RegExp(
+      String.raw`^[ \t]*(?:global\s+)?using\s+${escapeRegExp(namespace)}\s*;[^\S\n]*\n?`,
+      flags,
+    );
+
+  const referenced = [...change.classes.keys()].filter((name) =>
+    new RegExp(String.raw`\b${escapeRegExp(name)}\b`).test(code),
+  );
+  // Without the old namespace a using of it no longer compiles, referenced types or not
+  const needsUsingUpdate =
+    namespaceChanged && !keepOldNamespace && usingRegex(oldNamespace!).test(code);
+  if (referenced.length === 0 && !needsUsingUpdate) {
+    return content;
+  }
+
+  let updated = content;
+  if (referenced.length > 0) {
+    const names = referenced.map(escapeRegExp).join('|');
+    // Qualified references name the old namespace, whether or not it changes
+    const qualifier = oldNamespace ? String.raw`(?:\b${escapeRegExp(oldNamespace)}\.)?` : '';
+    updated = replaceInCode(
+      content,
+      new RegExp(String.raw`${qualifier}\b(?:${names})\b`, 'g'),
+      (match) => {
+        const qualified = Boolean(oldNamespace) && match[0].startsWith(`${oldNamespace}.`);
+        // A member access such as something.Name does not refer to the class
+        if (!qualified && code[match.index! - 1] === '.') {
+          return match[0];
+        }
+        const name = qualified ? match[0].slice(oldNamespace!.length + 1) : match[0];
+        const newName = change.classes.get(name) ?? name;
+        return qualified ? `${newNamespace ?? oldNamespace}.${newName}` : newName;
+      },
+    );
+  }
+
+  if (!namespaceChanged) {
+    return updated;
+  }
+
+  const updatedCode = stripCommentsAndStrings(updated);
+  const fileNamespace = extractNamespace(updated);
+  const hasOldUsing = usingRegex(oldNamespace!).test(updatedCode);
+  // Types of enclosing namespaces are in scope without a using
+  const hasNewNamespace =
+    isInNamespace(fileNamespace, newNamespace!) || usingRegex(newNamespace!).test(updatedCode);
+
+  if (hasOldUsing && !keepOldNamespace) {
+    return hasNewNamespace
+      ? replaceInCode(updated, usingRegex(oldNamespace!, 'gm'), () => '')
+      : replaceInCode(
+          updated,
+          new RegExp(String.raw`(?<=\busing\s+)${escapeRegExp(oldNamespace!)}(?=\s*;)`, 'g'),
+          () => newNamespace!,
+        );
+  }
+  if ((hasOldUsing || isInNamespace(fileNamespace, oldNamespace!)) && !hasNewNamespace) {
+    return addUsing(updated, newNamespace!);
+  }
+  return updated;
+}
+
+// Compares the top-level classes and the namespace of a file before and after a fix, null
+// when other files are not affected
+export function getTypeChange(before: string, after: string): TypeChange | null {
+  const oldNamespace = extractNamespace(before);
+  const newNamespace = extractNamespace(after);
+  const oldClasses = findClassDeclarations(before).filter((c) => !c.isNested);
+  const newClasses = findClassDeclarations(after).filter((c) => !c.isNested);
+
+  // Fixes rename classes in place, so the declarations still line up by position
+  const classes = new Map<string, string>();
+  for (const [index, declaration] of oldClasses.entries()) {
+    classes.set(declaration.name, newClasses[index]?.name ?? declaration.name);
+  }
+
+  const renamed = [...classes].some(([oldName, newName]) => oldName !== newName);
+  if (!renamed && oldNamespace === newNamespace) {
+    return null;
+  }
+  return { oldNamespace, newNamespace, classes };
+}
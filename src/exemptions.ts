@@ -0,0 +1,47 @@
+import * as path from 'node:path';
+import { minimatch } from 'minimatch';
+import { FileFacts } from './analysis-cache';
+import { MissingTestExemption } from './types';
+
+export interface ExemptionSettings {
+  // Sources declaring nothing but these kinds of types need no test
+  exemptTypeKinds: string[];
+  exemptExcludedFromCoverage: boolean;
+  exemptAutoGenerated: boolean;
+  // Globs relative to the source root, e.g. **/Migrations/**
+  exemptPaths: string[];
+}
+
+// Why the source file needs no test, null when it does. facts is null for unreadable files,
+// which only path patterns exempt
+export function findExemption(
+  sourceFile: string,
+  srcRoot: string,
+  settings: ExemptionSettings,
+  facts: FileFacts | null,
+): MissingTestExemption | null {
+  const sourceFilePath = path.resolve(sourceFile);
+  const relativePath = path.relative(srcRoot, sourceFilePath).replaceAll(/\\/g, '/');
+  const pattern = settings.exemptPaths.find((p) => minimatch(relativePath, p, { dot: true }));
+  if (pattern) {
+    return { sourceFilePath, reason: 'path-pattern', detail: pattern };
+  }
+
+  if (!facts) {
+    // An unreadable source still needs its test
+    return null;
+  }
+
+  if (settings.exemptAutoGenerated && facts.autoGenerated) {
+    return { sourceFilePath, reason: 'auto-generated' };
+  }
+  if (settings.exemptExcludedFromCoverage && facts.excludedFromCoverage) {
+    return { sourceFilePath, reason: 'exclude-from-code-coverage' };
+  }
+
+  const kinds = [...new Set(facts.typeKinds)];
+  if (kinds.length > 0 && kinds.every((kind) => settings.exemptTypeKinds.includes(kind))) {
+    return { sourceFilePath, reason: 'type-kinds', detail: kinds.join(', ') };
+  }
+  return null;
+}
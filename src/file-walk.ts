@@ -0,0 +1,97 @@
+import * as fs from 'node:fs/promises';
+import { Dirent } from 'node:fs';
+import * as path from 'node:path';
+import { IO_CONCURRENCY, mapWithConcurrency } from './concurrency';
+
+export interface WalkRoot {
+  dir: string;
+  // Directories below the root whose files it does not want
+  skipDirectory(dirPath: string): boolean;
+}
+
+function contains(dir: string, filePath: string): boolean {
+  return filePath === dir || filePath.startsWith(dir + path.sep);
+}
+
+async function readDirectory(dir: string): Promise<Dirent[]> {
+  try {
+    return await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    // Missing or unreadable directories have no files, like a glob finding nothing
+    return [];
+  }
+}
+
+// Folders leading to a nested root are always read, others when a root they are in wants them
+export function isWalkedDirectory(roots: WalkRoot[], dirPath: string): boolean {
+  return roots.some(
+    (root) =>
+      contains(dirPath, root.dir) || (contains(root.dir, dirPath) && !root.skipDirectory(dirPath)),
+  );
+}
+
+// Symbolic links count when they point at a file, linked directories are not followed
+async function isFile(entry: Dirent, filePath: string): Promise<boolean> {
+  if (!entry.isSymbolicLink()) {
+    return entry.isFile();
+  }
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Files with the extension below each root, absolute and sorted. Overlapping roots, such as
+// source and tests in one folder, are read once and a directory is only skipped when every
+// root it is in skips it. Hidden files and folders are left out. Each level of the tree is
+// read in parallel, bounded by IO_CONCURRENCY
+export async function walkFiles(roots: WalkRoot[], extension: string): Promise<string[][]> {
+  const resolvedRoots = roots.map((root) => ({ ...root, dir: path.resolve(root.dir) }));
+  const found = resolvedRoots.map(() => [] as string[]);
+
+  let dirs = [...new Set(resolvedRoots.map((root) => root.dir))].filter(
+    (dir, _, all) => !all.some((other) => other !== dir && contains(other, dir)),
+  );
+  while (dirs.length > 0) {
+    const listings = await mapWithConcurrency(dirs, IO_CONCURRENCY, async (dir) => ({
+      dir,
+      entries: await readDirectory(dir),
+    }));
+
+    const nextDirs: string[] = [];
+    const files: { filePath: string; entry: Dirent }[] = [];
+    for (const { dir, entries } of listings) {
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) {
+          continue;
+        }
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (isWalkedDirectory(resolvedRoots, entryPath)) {
+            nextDirs.push(entryPath);
+          }
+        } else if (entry.name.endsWith(extension)) {
+          files.push({ filePath: entryPath, entry });
+        }
+      }
+    }
+
+    const checked = await mapWithConcurrency(files, IO_CONCURRENCY, async (file) =>
+      (await isFile(file.entry, file.filePath)) ? file.filePath : null,
+    );
+    for (const filePath of checked) {
+      if (filePath === null) {
+        continue;
+      }
+      resolvedRoots.forEach((root, index) => {
+        if (contains(root.dir, filePath)) {
+          found[index].push(filePath);
+        }
+      });
+    }
+    dirs = nextDirs;
+  }
+
+  return found.map((files) => files.sort((a, b) => a.localeCompare(b, 'en')));
+}
@@ -0,0 +1,78 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createTwoFilesPatch } from 'diff';
+
+// A rewrite changes the content of a file in place, from and to are the same path
+export type FixAction = 'move' | 'rename' | 'create' | 'rewrite';
+
+export interface PlannedFix {
+  action: FixAction;
+  // Test file being moved or renamed, the source file for created tests
+  from: string;
+  to: string;
+  // Empty for created files
+  originalContent: string;
+  newContent: string;
+}
+
+export interface FixPlanEntry {
+  action: FixAction;
+  from: string;
+  to: string;
+  diff: string | null;
+}
+
+export interface FixPlan {
+  dryRun: boolean;
+  createdAt: string;
+  fixes: FixPlanEntry[];
+}
+
+function toDisplayPath(filePath: string): string {
+  return path.relative(process.cwd(), filePath).replaceAll(/\\/g, '/');
+}
+
+// Unified diff of the content change, null when only the location changes
+export function createFixDiff(fix: PlannedFix): string | null {
+  if (fix.originalContent === fix.newContent) {
+    return null;
+  }
+
+  const oldName = fix.action === 'create' ? '/dev/null' : toDisplayPath(fix.from);
+  return createTwoFilesPatch(
+    oldName,
+    toDisplayPath(fix.to),
+    fix.originalContent,
+    fix.newContent,
+    undefined,
+    undefined,
+    { context: 3 },
+  );
+}
+
+export function createFixPlan(fixes: PlannedFix[], dryRun: boolean): FixPlan {
+  return {
+    dryRun,
+    createdAt: new Date().toISOString(),
+    fixes: fixes.map((fix) => ({
+      action: fix.action,
+      from: toDisplayPath(fix.from),
+      to: toDisplayPath(fix.to),
+      diff: createFixDiff(fix),
+    })),
+  };
+}
+
+export async function saveFixPlan(plan: FixPlan, outputPath: string): Promise<string> {
+  const resolvedPath = path.resolve(outputPath);
+
+  try {
+    await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+    await fs.writeFile(resolvedPath, JSON.stringify(plan, null, 2));
+    return resolvedPath;
+  } catch (error) {
+    throw new Error(
+      `Failed to save fix plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
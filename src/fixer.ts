@@ -1,51 +1,374 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { AnalysisResult, AnalysisError, AnalysisErrorType, AnalyzerOptions } from './types';
+import {
+  AnalysisResult,
+  AnalysisError,
+  AnalysisErrorType,
+  AnalyzerOptions,
+  DEFAULT_OPTIONS,
+} from './types';
+import {
+  escapeRegExp,
+  extractNamespace,
+  getTypeChange,
+  renameClass,
+  rewriteNamespace,
+  stripCommentsAndStrings,
+  TypeChange,
+  updateTypeReferences,
+} from './csharp';
+import { calculateExpectedNamespace, NamespaceSettings } from './namespaces';
+import { findRule, getRuleOptions } from './rules';
+import { loadTemplate, renderTemplate, TestFramework } from './templates';
+import { PlannedFix } from './fix-plan';
+import { gitMove, isInsideWorkTree, isTracked } from './git';
+import { createIgnoreMatcher, IgnoreMatcher } from './ignore';
+import { walkFiles } from './file-walk';
+import { IO_CONCURRENCY, mapWithConcurrency } from './concurrency';
+import {
+  createSession,
+  hashContent,
+  JournalEntry,
+  JournalSession,
+  revertEntries,
+  saveSession,
+  toJournalEntry,
+} from './journal';
 
 export interface FixOptions {
   createMissingFiles: boolean;
   renameInvalidFiles: boolean;
   moveFiles: boolean;
+  testFramework: TestFramework;
+  // User template used instead of the built-in one of testFramework
+  templatePath?: string;
 }
 
 export const DEFAULT_FIX_OPTIONS: FixOptions = {
   createMissingFiles: false,
   renameInvalidFiles: false,
   moveFiles: false,
+  testFramework: 'xunit',
 };
 
+export interface ScaffoldResult {
+  created: FixResult[];
+  // Expected test paths that already exist, they are never overwritten
+  skipped: string[];
+}
+
+// What to rename when the class in a test file is not named like the file
+export type ClassNameFix = 'class' | 'file';
+
+export const CLASS_NAME_FIXES: readonly ClassNameFix[] = ['class', 'file'];
+
+export interface FixerSettings {
+  // Only plan the fixes, see getPlannedFixes
+  dryRun?: boolean;
+  // Where applied fixes are journaled for undo, no journal when unset
+  journalDir?: string;
+  // Defaults to renaming the class
+  classNameFix?: ClassNameFix;
+}
+
 export interface FixableResult {
   isFixable: boolean;
   error?: string;
-  fix?: () => Promise<FixResult>;
+  // Null when the file turned out to need no change, e.g. its namespace already matches
+  fix?: () => Promise<FixResult | null>;
 }
 
-interface FixResult {
+export interface FixResult {
   from: string;
   to: string;
+  // Other test files updated to follow the fix
+  references?: string[];
+}
+
+// Findings the fixer can resolve on its own, one file at a time
+export function isFixableError(error: AnalysisError): boolean {
+  if (error.type === AnalysisErrorType.ClassNameMismatch) {
+    return Boolean(error.actualTestPath && error.className);
+  }
+  if (error.type === AnalysisErrorType.NamespaceMismatch) {
+    return Boolean(error.actualTestPath);
+  }
+  if (error.type === AnalysisErrorType.OrphanedTest) {
+    return Boolean(error.actualTestPath && error.suggestions?.length);
+  }
+  return (
+    (error.type === AnalysisErrorType.InvalidDirectoryStructure ||
+      error.type === AnalysisErrorType.InvalidFileName) &&
+    Boolean(error.actualTestPath && error.expectedTestPath && error.sourceFilePath) &&
+    isConfidentlyResolved(error)
+  );
+}
+
+// A source picked among several of the same name with less than high confidence is a guess,
+// fixing it could move the test away from where it belongs
+function isConfidentlyResolved(error: AnalysisError): boolean {
+  return !error.sourceResolution || error.sourceResolution.confidence === 'high';
+}
+
+// The files of the test tree as the fixes so far left them, by the words of their code and
+// by their namespace, so a fix only looks at the files that can refer to what it changed
+interface TestTreeIndex {
+  ignoreMatcher: IgnoreMatcher;
+  contents: Map<string, string>;
+  words: Map<string, Set<string>>;
+  namespaces: Map<string, Set<string>>;
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, file: string): void {
+  let files = index.get(key);
+  if (!files) {
+    files = new Set();
+    index.set(key, files);
+  }
+  files.add(file);
+}
+
+function codeWords(content: string): Set<string> {
+  return new Set(stripCommentsAndStrings(content).match(/\b[A-Za-z_]\w*/g));
+}
+
+function indexFile(tree: TestTreeIndex, file: string, content: string): void {
+  unindexFile(tree, file);
+  tree.contents.set(file, content);
+  for (const word of codeWords(content)) {
+    addToIndex(tree.words, word, file);
+  }
+  addToIndex(tree.namespaces, extractNamespace(content) ?? '', file);
+}
+
+function unindexFile(tree: TestTreeIndex, file: string): void {
+  const content = tree.contents.get(file);
+  if (content === undefined) {
+    return;
+  }
+  tree.contents.delete(file);
+  for (const word of codeWords(content)) {
+    tree.words.get(word)?.delete(file);
+  }
+  tree.namespaces.get(extractNamespace(content) ?? '')?.delete(file);
+}
+
+// Files that mention a changed class, or the old namespace in a using directive
+function findReferencingFiles(tree: TestTreeIndex, change: TypeChange): string[] {
+  const names = [...change.classes.keys()];
+  if (change.oldNamespace && change.oldNamespace !== change.newNamespace) {
+    names.push(change.oldNamespace.split('.').pop()!);
+  }
+  const files = new Set(names.flatMap((name) => [...(tree.words.get(name) ?? [])]));
+  return [...files].sort((a, b) => a.localeCompare(b, 'en'));
 }
 
 export class Fixer {
+  private readonly options: AnalyzerOptions;
+  // Every fix in the order it was made, or would have been made in a dry run
+  private readonly plannedFixes: PlannedFix[] = [];
+
+  private readonly dryRun: boolean;
+  private readonly journalDir?: string;
+  private readonly classNameFix: ClassNameFix;
+  private session: JournalSession | null = null;
+  // Journal entries of the applied fixes, in step with plannedFixes outside of dry runs
+  private readonly appliedEntries: JournalEntry[] = [];
+  private inGitWorkTree?: boolean;
+  // Content the fixes of a dry run left at each path, null where a file was moved away. Later
+  // fixes start from it, as they would from the disk after real fixes
+  private readonly pendingContent = new Map<string, string | null>();
+  // Read on the first fix that changes a type, for the other fixes of the batch
+  private testTree?: TestTreeIndex;
+
+  constructor(options: Partial<AnalyzerOptions> = {}, settings: FixerSettings = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.options.testRoot = path.resolve(this.options.testRoot);
+    this.dryRun = settings.dryRun ?? false;
+    this.journalDir = settings.journalDir;
+    this.classNameFix = settings.classNameFix ?? 'class';
+  }
+
+  getPlannedFixes(): PlannedFix[] {
+    return [...this.plannedFixes];
+  }
+
+  // Id of the journal session of the applied fixes, null when nothing was journaled
+  getSessionId(): string | null {
+    return this.session?.id ?? null;
+  }
+
+  async finishSession(): Promise<void> {
+    if (this.session && this.journalDir && this.session.status === 'in-progress') {
+      this.session.status = 'completed';
+      await saveSession(this.journalDir, this.session);
+    }
+  }
+
+  // The journal is saved after every fix so an interrupted run can still be undone
+  private async journalFix(entry: JournalEntry): Promise<void> {
+    this.appliedEntries.push(entry);
+    if (!this.journalDir) {
+      return;
+    }
+    this.session ??= createSession();
+    this.session.entries.push(entry);
+    await saveSession(this.journalDir, this.session);
+  }
+
+  // A fix journaled ahead of its edit, e.g. right after the git mv, takes the hash of the edit
+  private async updateJournalEntry(entry: JournalEntry, newContent: string): Promise<void> {
+    entry.newHash = hashContent(newContent);
+    if (this.session && this.journalDir) {
+      await saveSession(this.journalDir, this.session);
+    }
+  }
+
+  // Reverts the fixes applied since the given point, newest first. The session stays open,
+  // later fixes can still be journaled in it
+  private async revertFixes(fromIndex: number): Promise<number> {
+    const applied = this.plannedFixes.splice(fromIndex);
+    this.testTree = undefined;
+    if (this.dryRun || applied.length === 0) {
+      return 0;
+    }
+
+    await revertEntries(this.appliedEntries.splice(fromIndex));
+    if (this.session && this.journalDir) {
+      this.session.entries.splice(this.session.entries.length - applied.length);
+      await saveSession(this.journalDir, this.session);
+    }
+    return applied.length;
+  }
+
+  // Reverts a failed batch and closes the session
+  private async rollBack(fromIndex: number): Promise<number> {
+    const rolledBack = await this.revertFixes(fromIndex);
+    if (rolledBack > 0 && this.session && this.journalDir) {
+      this.session.status = 'rolled-back';
+      await saveSession(this.journalDir, this.session);
+    }
+    return rolledBack;
+  }
+
+  // Returns null when the file to create already exists
+  private async applyFix(fix: PlannedFix): Promise<FixResult | null> {
+    const caseOnly = fix.from.toLowerCase() === fix.to.toLowerCase();
+    const relocates = fix.action === 'move' || fix.action === 'rename';
+    if (relocates && !caseOnly && (await this.fileExists(fix.to))) {
+      throw new Error(`Target file already exists: ${fix.to}`);
+    }
+    const result = { from: fix.from, to: fix.to };
+
+    if (this.dryRun) {
+      await this.recordFix(fix, null);
+      if (relocates && !caseOnly) {
+        this.pendingContent.set(path.resolve(fix.from), null);
+      }
+      this.pendingContent.set(path.resolve(fix.to), fix.newContent);
+      return result;
+    }
+
+    if (relocates && (await this.canMoveWithGit(fix.from))) {
+      // Moving first and editing second keeps the rename visible to git log --follow. The move
+      // is journaled before the edit, so a failing edit still moves the file back
+      await fs.mkdir(path.dirname(fix.to), { recursive: true });
+      await gitMove(fix.from, fix.to);
+      const entry = toJournalEntry({ ...fix, newContent: fix.originalContent }, true);
+      await this.recordFix(fix, entry);
+      if (fix.newContent !== fix.originalContent) {
+        await fs.writeFile(fix.to, fix.newContent);
+        await this.updateJournalEntry(entry, fix.newContent);
+      }
+      return result;
+    }
+
+    // Relocated files are journaled once they are at the new path, before the original is
+    // deleted, so a failing delete rolls back the copy as well
+    switch (fix.action) {
+      case 'create':
+        await fs.mkdir(path.dirname(fix.to), { recursive: true });
+        try {
+          // 'wx' fails instead of overwriting a file that exists
+          await fs.writeFile(fix.to, fix.newContent, { flag: 'wx' });
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+            return null;
+          }
+          throw err;
+        }
+        break;
+      case 'rewrite':
+        await fs.writeFile(fix.to, fix.newContent);
+        break;
+      case 'rename':
+        // Check if paths differ only in case (case-sensitive rename needed on Windows)
+        if (caseOnly) {
+          // Two-step rename for case-only changes
+          const tempPath = path.join(
+            path.dirname(fix.from),
+            `temp_${Date.now()}_${path.basename(fix.to)}`,
+          );
+          await fs.rename(fix.from, tempPath);
+          await fs.writeFile(fix.to, fix.newContent);
+          await this.recordFix(fix, toJournalEntry(fix));
+          await fs.unlink(tempPath);
+        } else {
+          // Direct rename: write to new location and delete old file
+          await fs.writeFile(fix.to, fix.newContent);
+          await this.recordFix(fix, toJournalEntry(fix));
+          await fs.unlink(fix.from);
+        }
+        return result;
+      case 'move':
+        // Create directories as needed
+        await fs.mkdir(path.dirname(fix.to), {
+          recursive: true,
+        });
+
+        // Write the file to its new location
+        await fs.writeFile(fix.to, fix.newContent);
+        await this.recordFix(fix, toJournalEntry(fix));
+
+        // Delete the original file
+        await fs.unlink(fix.from);
+        return result;
+    }
+
+    await this.recordFix(fix, toJournalEntry(fix));
+    return result;
+  }
+
+  // A fix counts as applied once its file is in place, the entry is null in dry runs
+  private async recordFix(fix: PlannedFix, entry: JournalEntry | null): Promise<void> {
+    this.plannedFixes.push(fix);
+    this.updateTestTree(fix);
+    if (entry) {
+      await this.journalFix(entry);
+    }
+  }
+
   async applyFixes(
     results: AnalysisResult[],
     options: FixOptions = DEFAULT_FIX_OPTIONS,
   ): Promise<void> {
     for (const result of results) {
       for (const error of result.errors) {
-        await this.handleErrorFix(error, result.testFilePath, options);
+        await this.handleErrorFix(error, result, options);
       }
     }
   }
 
   private async handleErrorFix(
     error: AnalysisError,
-    testFilePath: string,
+    result: AnalysisResult,
     options: FixOptions,
   ): Promise<void> {
     switch (error.type) {
       case AnalysisErrorType.MissingTest:
         if (options.createMissingFiles) {
-          await this.createMissingTestFile(testFilePath);
+          const template = await loadTemplate(options.testFramework, options.templatePath);
+          await this.createMissingTestFile(error, result.testFilePath, template);
         }
         break;
       case AnalysisErrorType.InvalidFileName:
@@ -58,12 +381,78 @@ export class Fixer {
           await this.moveTestFile(error, []);
         }
         break;
+      case AnalysisErrorType.ClassNameMismatch:
+        if (options.renameInvalidFiles) {
+          await this.fixClassName(error, [], this.classNameFix);
+        }
+        break;
+      case AnalysisErrorType.NamespaceMismatch:
+        if (options.moveFiles) {
+          await this.fixNamespace(error, []);
+        }
+        break;
     }
   }
 
-  private createMissingTestFile(sourcePath: string): Promise<void> {
-    // Implementation for creating missing test files
-    throw new Error('Not implemented');
+  async scaffoldMissingTests(
+    results: AnalysisResult[],
+    options: FixOptions = DEFAULT_FIX_OPTIONS,
+  ): Promise<ScaffoldResult> {
+    const template = await loadTemplate(options.testFramework, options.templatePath);
+    const scaffold: ScaffoldResult = { created: [], skipped: [] };
+
+    for (const result of results) {
+      for (const error of result.errors) {
+        if (error.type !== AnalysisErrorType.MissingTest) {
+          continue;
+        }
+        const created = await this.createMissingTestFile(error, result.testFilePath, template);
+        if (created) {
+          scaffold.created.push(created);
+        } else {
+          scaffold.skipped.push(result.testFilePath);
+        }
+      }
+    }
+
+    return scaffold;
+  }
+
+  // Returns null when a file already exists at the test path
+  private async createMissingTestFile(
+    error: AnalysisError,
+    testFilePath: string,
+    template: string,
+  ): Promise<FixResult | null> {
+    if (!error.sourceFilePath || (await this.fileExists(testFilePath))) {
+      return null;
+    }
+
+    const sourceContent = await fs.readFile(error.sourceFilePath, 'utf8');
+    const sourceNamespace = extractNamespace(sourceContent) ?? '';
+    const testNamespace = this.getTestNamespace(testFilePath);
+
+    const content = renderTemplate(template, {
+      namespace: testNamespace,
+      classUnderTest: path.basename(error.sourceFilePath, path.extname(error.sourceFilePath)),
+      testClassName: path.basename(testFilePath, path.extname(testFilePath)),
+      sourceNamespace,
+      usings:
+        sourceNamespace && sourceNamespace !== testNamespace ? `using ${sourceNamespace};\n` : '',
+    });
+
+    return this.applyFix({
+      action: 'create',
+      from: error.sourceFilePath,
+      to: testFilePath,
+      originalContent: '',
+      newContent: content,
+    });
+  }
+
+  // The namespace mirrors the folders below the test root, e.g. Application.Tests.Services
+  private getTestNamespace(testFilePath: string): string {
+    return this.extractNamespaceFromPath(testFilePath) ?? path.basename(path.dirname(testFilePath));
   }
 
   private async renameInvalidTestFile(
@@ -71,7 +460,6 @@ export class Fixer {
     fixedFiles: FixResult[],
   ): Promise<void> {
     if (!error.actualTestPath || !error.expectedTestPath) {
-      console.log('[DEBUG] Missing paths, returning early');
       return;
     }
 
@@ -79,7 +467,7 @@ export class Fixer {
     const expectedPath = error.expectedTestPath;
 
     // Read the file content before renaming
-    const content = await fs.readFile(actualPath, 'utf8');
+    const content = await this.readContent(actualPath);
 
     // Extract class names from filenames (without extension)
     const oldClassName = path.basename(actualPath, path.extname(actualPath));
@@ -88,31 +476,93 @@ export class Fixer {
     // Replace all occurrences of the old class name with the new class name
     const updatedContent = this.updateClassName(content, oldClassName, newClassName);
 
-    // Check if paths differ only in case (case-sensitive rename needed on Windows)
-    if (actualPath.toLowerCase() === expectedPath.toLowerCase()) {
-      // Two-step rename for case-only changes
-      const tempPath = path.join(
-        path.dirname(actualPath),
-        `temp_${Date.now()}_${path.basename(expectedPath)}`,
-      );
-      await fs.rename(actualPath, tempPath);
-      await fs.writeFile(expectedPath, updatedContent);
-      await fs.unlink(tempPath);
-    } else {
-      // Direct rename: write to new location and delete old file
-      await fs.writeFile(expectedPath, updatedContent);
-      await fs.unlink(actualPath);
-    }
-
-    console.log(`Renamed: ${error.actualTestPath} → ${error.expectedTestPath}`);
-
-    fixedFiles.push({
+    const fixed = await this.applyFixWithReferences({
+      action: 'rename',
       from: actualPath,
       to: expectedPath,
+      originalContent: content,
+      newContent: updatedContent,
     });
+
+    if (fixed) {
+      fixedFiles.push(fixed);
+    }
+  }
+
+  // Renames the class to the file name, or the file to the class name
+  private async fixClassName(
+    error: AnalysisError,
+    fixedFiles: FixResult[],
+    target: ClassNameFix,
+  ): Promise<void> {
+    if (!error.actualTestPath || !error.className) {
+      return;
+    }
+
+    const actualPath = error.actualTestPath;
+    const fileName = path.basename(actualPath, path.extname(actualPath));
+    const content = await this.readContent(actualPath);
+
+    const fixed = await this.applyFixWithReferences(
+      target === 'class'
+        ? {
+            action: 'rewrite',
+            from: actualPath,
+            to: actualPath,
+            originalContent: content,
+            newContent: renameClass(content, error.className, fileName),
+          }
+        : {
+            action: 'rename',
+            from: actualPath,
+            to: path.join(path.dirname(actualPath), error.className + path.extname(actualPath)),
+            originalContent: content,
+            newContent: content,
+          },
+    );
+
+    if (fixed) {
+      fixedFiles.push(fixed);
+    }
   }
 
-  async isFixable(testFilePath: string, results: AnalysisResult[]): Promise<FixableResult> {
+  // Rewrites the namespace declaration to the one expected for the folder
+  private async fixNamespace(
+    error: AnalysisError,
+    fixedFiles: FixResult[],
+    testPath = error.actualTestPath,
+  ): Promise<void> {
+    const expectedNamespace = testPath && this.extractNamespaceFromPath(testPath);
+    if (!testPath || !expectedNamespace) {
+      return;
+    }
+
+    const content = await this.readContent(testPath);
+    const updatedContent = rewriteNamespace(content, expectedNamespace);
+    if (updatedContent === content) {
+      return;
+    }
+
+    const fixed = await this.applyFixWithReferences({
+      action: 'rewrite',
+      from: testPath,
+      to: testPath,
+      originalContent: content,
+      newContent: updatedContent,
+    });
+
+    if (fixed) {
+      fixedFiles.push(fixed);
+    }
+  }
+
+  // For orphaned tests, suggestionIndex picks the repair suggestion to apply
+  async isFixable(
+    testFilePath: string,
+    results: AnalysisResult[],
+    classNameFix: ClassNameFix = this.classNameFix,
+    suggestionIndex = 0,
+  ): Promise<FixableResult> {
     // Find the result for this file
     const result = results.find((r) => r.testFilePath === testFilePath);
     if (!result) {
@@ -122,46 +572,133 @@ export class Fixer {
       };
     }
 
-    // Check if it has a directory structure or filename error that can be fixed
-    const error = result.errors.find(
-      (e) =>
-        (e.type === AnalysisErrorType.InvalidDirectoryStructure ||
-          e.type === AnalysisErrorType.InvalidFileName) &&
-        e.actualTestPath &&
-        e.expectedTestPath &&
-        e.sourceFilePath,
-    );
+    // Check if it has a directory structure, filename or class name error that can be fixed
+    const error = result.errors.find(isFixableError);
 
     if (!error) {
       return {
         isFixable: false,
-        error: 'File has no fixable directory structure or filename issues',
+        error: 'File has no fixable directory structure, filename or class name issues',
       };
     }
 
     return {
       isFixable: true,
+      // The file and the references it updates are fixed together or not at all
       fix: async () => {
         const fixedFiles: FixResult[] = [];
-        if (error.type === AnalysisErrorType.InvalidFileName) {
-          await this.renameInvalidTestFile(error, fixedFiles);
-        } else {
-          await this.moveTestFile(error, fixedFiles);
+        const fixStart = this.plannedFixes.length;
+        try {
+          if (error.type === AnalysisErrorType.InvalidFileName) {
+            await this.renameInvalidTestFile(error, fixedFiles);
+          } else if (error.type === AnalysisErrorType.ClassNameMismatch) {
+            await this.fixClassName(error, fixedFiles, classNameFix);
+          } else if (error.type === AnalysisErrorType.NamespaceMismatch) {
+            await this.fixNamespace(error, fixedFiles);
+          } else if (error.type === AnalysisErrorType.OrphanedTest) {
+            await this.applySuggestion(error, fixedFiles, suggestionIndex);
+          } else {
+            await this.moveTestFile(error, fixedFiles);
+          }
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+          const rolledBack = await this.revertFixes(fixStart);
+          throw new Error(`${errorMessage} (rolled back ${rolledBack} fixes)`);
         }
-        return fixedFiles[0];
+        return fixedFiles[0] ?? null;
       },
     };
   }
 
+  // Moves or renames an orphaned test to where the suggested source expects it, the class
+  // and namespace follow the new path
+  private async applySuggestion(
+    error: AnalysisError,
+    fixedFiles: FixResult[],
+    suggestionIndex: number,
+  ): Promise<void> {
+    const suggestion = error.suggestions?.[suggestionIndex];
+    if (!error.actualTestPath || !suggestion) {
+      throw new Error(`No repair suggestion ${suggestionIndex + 1} for ${error.actualTestPath}`);
+    }
+
+    const actualPath = error.actualTestPath;
+    const expectedPath = suggestion.expectedTestPath;
+    const content = await this.readContent(actualPath);
+    const oldClassName = path.basename(actualPath, path.extname(actualPath));
+    const newClassName = path.basename(expectedPath, path.extname(expectedPath));
+    const updatedContent = this.updateNamespace(
+      this.updateClassName(content, oldClassName, newClassName),
+      actualPath,
+      expectedPath,
+    );
+
+    const fixed = await this.applyFixWithReferences({
+      action: path.dirname(actualPath) === path.dirname(expectedPath) ? 'rename' : 'move',
+      from: actualPath,
+      to: expectedPath,
+      originalContent: content,
+      newContent: updatedContent,
+    });
+
+    if (fixed) {
+      fixedFiles.push(fixed);
+    }
+  }
+
+  // All or nothing: when one move fails, the moves made before it are rolled back
   async fixDirectoryStructure(
     results: AnalysisResult[],
     options: AnalyzerOptions,
   ): Promise<FixResult[]> {
     const fixedFiles: FixResult[] = [];
+    const batchStart = this.plannedFixes.length;
 
     for (const result of results) {
       for (const error of result.errors) {
-        await this.tryFixDirectoryError(error, fixedFiles);
+        try {
+          await this.tryFixDirectoryError(error, fixedFiles);
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+          const rolledBack = await this.rollBack(batchStart);
+          throw new Error(
+            `Failed to fix ${error.actualTestPath}: ${errorMessage} (rolled back ${rolledBack} fixes)`,
+          );
+        }
+      }
+    }
+
+    return fixedFiles;
+  }
+
+  // Applies fixes planned before, e.g. by a dry run. A file that changed since stops the
+  // plan and, like fixDirectoryStructure, the fixes made before it are rolled back
+  async applyPlannedFixes(
+    fixes: PlannedFix[],
+    onApplied: (fix: PlannedFix) => void = () => {},
+  ): Promise<FixResult[]> {
+    const fixedFiles: FixResult[] = [];
+    const batchStart = this.plannedFixes.length;
+
+    for (const fix of fixes) {
+      try {
+        if (
+          fix.action !== 'create' &&
+          (await fs.readFile(fix.from, 'utf8')) !== fix.originalContent
+        ) {
+          throw new Error('the file changed since the fix was planned');
+        }
+        const fixed = await this.applyFix(fix);
+        if (fixed) {
+          fixedFiles.push(fixed);
+        }
+        onApplied(fix);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        const rolledBack = await this.rollBack(batchStart);
+        throw new Error(
+          `Failed to fix ${fix.from}: ${errorMessage} (rolled back ${rolledBack} fixes)`,
+        );
       }
     }
 
@@ -169,20 +706,27 @@ export class Fixer {
   }
 
   private async tryFixDirectoryError(error: AnalysisError, fixedFiles: FixResult[]): Promise<void> {
-    if (error.type !== AnalysisErrorType.InvalidDirectoryStructure) {
+    if (error.type === AnalysisErrorType.NamespaceMismatch) {
+      // The file may have been moved for another finding of the same batch
+      const moved = fixedFiles.find((fixed) => fixed.from === error.actualTestPath);
+      await this.fixNamespace(error, fixedFiles, moved?.to);
       return;
     }
 
-    if (!error.actualTestPath || !error.expectedTestPath || !error.sourceFilePath) {
+    if (error.type !== AnalysisErrorType.InvalidDirectoryStructure) {
       return;
     }
 
-    try {
-      await this.moveTestFile(error, fixedFiles);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      console.error(`Failed to fix ${error.actualTestPath}: ${errorMessage}`);
+    if (
+      !error.actualTestPath ||
+      !error.expectedTestPath ||
+      !error.sourceFilePath ||
+      !isConfidentlyResolved(error)
+    ) {
+      return;
     }
+
+    await this.moveTestFile(error, fixedFiles);
   }
 
   async moveTestFile(error: AnalysisError, fixedFiles: FixResult[]): Promise<void> {
@@ -192,27 +736,22 @@ export class Fixer {
     const expectedPath = error.expectedTestPath;
 
     // Read the test file content
-    const content = await fs.readFile(actualPath, 'utf8');
+    const content = await this.readContent(actualPath);
 
     // Update namespace if needed
     const updatedContent = this.updateNamespace(content, actualPath, expectedPath);
 
-    // Create directories as needed
-    const dir = path.dirname(expectedPath);
-    await fs.mkdir(dir, {
-      recursive: true,
-    });
-
-    // Write the file to its new location
-    await fs.writeFile(expectedPath, updatedContent);
-
-    // Delete the original file
-    await fs.unlink(actualPath);
-
-    fixedFiles.push({
+    const fixed = await this.applyFixWithReferences({
+      action: 'move',
       from: actualPath,
       to: expectedPath,
+      originalContent: content,
+      newContent: updatedContent,
     });
+
+    if (fixed) {
+      fixedFiles.push(fixed);
+    }
   }
 
   private updateNamespace(content: string, actualPath: string, expectedPath: string): string {
@@ -222,10 +761,7 @@ export class Fixer {
 
     if (actualNamespace && expectedNamespace && actualNamespace !== expectedNamespace) {
       // Replace namespace in the file
-      const namespaceRegex = new RegExp(
-        `namespace\\s+${this.escapeRegExp(actualNamespace)}\\b`,
-        'g',
-      );
+      const namespaceRegex = new RegExp(`namespace\\s+${escapeRegExp(actualNamespace)}\\b`, 'g');
       return content.replace(namespaceRegex, `namespace ${expectedNamespace}`);
     }
 
@@ -239,22 +775,143 @@ export class Fixer {
     }
 
     // Use word boundary to match whole class name only
-    const classNameRegex = new RegExp(`\\b${this.escapeRegExp(oldClassName)}\\b`, 'g');
+    const classNameRegex = new RegExp(`\\b${escapeRegExp(oldClassName)}\\b`, 'g');
     return content.replace(classNameRegex, newClassName);
   }
 
   private extractNamespaceFromPath(filePath: string): string | null {
-    const parts = path.dirname(filePath).split(path.sep);
-    const testIndex = parts.findIndex((p) => p.endsWith('.Tests'));
+    // Same settings as the namespace-mismatch rule, so fixed files pass it
+    const settings = getRuleOptions(findRule('namespace-mismatch')!, this.options);
+    return calculateExpectedNamespace(filePath, this.options, settings as NamespaceSettings);
+  }
+
+  // For fixes that rename a class or change its namespace, the other files have to follow
+  private async applyFixWithReferences(fix: PlannedFix): Promise<FixResult | null> {
+    const fixed = await this.applyFix(fix);
+    if (fixed) {
+      fixed.references = await this.updateReferences(fix);
+    }
+    return fixed;
+  }
 
-    if (testIndex >= 0) {
-      return parts.slice(testIndex).join('.');
+  private async updateReferences(fix: PlannedFix): Promise<string[]> {
+    const change = getTypeChange(fix.originalContent, fix.newContent);
+    if (!change) {
+      return [];
     }
 
-    return null;
+    const tree = await this.loadTestTree();
+    const fixedFiles = new Set([path.resolve(fix.from), path.resolve(fix.to)]);
+    const keepOldNamespace = [...(tree.namespaces.get(change.oldNamespace ?? '') ?? [])].some(
+      (file) => !fixedFiles.has(file),
+    );
+
+    const references: string[] = [];
+    const otherFiles = findReferencingFiles(tree, change).filter((file) => !fixedFiles.has(file));
+    for (const file of otherFiles) {
+      const content = tree.contents.get(file)!;
+      const updatedContent = updateTypeReferences(content, change, keepOldNamespace);
+      if (updatedContent === content) {
+        continue;
+      }
+      await this.applyFix({
+        action: 'rewrite',
+        from: file,
+        to: file,
+        originalContent: content,
+        newContent: updatedContent,
+      });
+      references.push(file);
+    }
+    return references;
+  }
+
+  private async loadTestTree(): Promise<TestTreeIndex> {
+    if (this.testTree) {
+      return this.testTree;
+    }
+    const ignoreMatcher = createIgnoreMatcher(this.options, 'test');
+    const files = await this.findTestTreeFiles(ignoreMatcher);
+    const contents = await mapWithConcurrency(files, IO_CONCURRENCY, (file) =>
+      this.readContent(file),
+    );
+    const tree: TestTreeIndex = {
+      ignoreMatcher,
+      contents: new Map(),
+      words: new Map(),
+      namespaces: new Map(),
+    };
+    files.forEach((file, index) => indexFile(tree, file, contents[index]));
+    this.testTree = tree;
+    return tree;
+  }
+
+  // Keeps the test tree in step with a fix that landed, moved files leave their old path
+  private updateTestTree(fix: PlannedFix): void {
+    const tree = this.testTree;
+    if (!tree) {
+      return;
+    }
+    const from = path.resolve(fix.from);
+    const to = path.resolve(fix.to);
+    if (from !== to) {
+      unindexFile(tree, from);
+    }
+    if (
+      to.startsWith(this.options.testRoot + path.sep) &&
+      to.endsWith(this.options.fileExtension) &&
+      !tree.ignoreMatcher.ignores(to)
+    ) {
+      indexFile(tree, to, fix.newContent);
+    }
   }
 
-  private escapeRegExp(string: string): string {
-    return string.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`);
+  // Every source file of the test tree, not only tests: helpers and fixtures refer to tests too
+  private async findTestTreeFiles(ignoreMatcher: IgnoreMatcher): Promise<string[]> {
+    const { testRoot, fileExtension } = this.options;
+    const [files] = await walkFiles(
+      [{ dir: testRoot, skipDirectory: (dir) => ignoreMatcher.ignoresDirectory(dir) }],
+      fileExtension,
+    );
+    // A dry run has not moved anything, its files are where the planned fixes left them
+    const walked = new Set(files);
+    const planned = [...this.pendingContent]
+      .filter(
+        ([file, content]) =>
+          content !== null &&
+          file.startsWith(testRoot + path.sep) &&
+          file.endsWith(fileExtension) &&
+          !walked.has(file),
+      )
+      .map(([file]) => file);
+    return [...files, ...planned].filter(
+      (file) => !ignoreMatcher.ignores(file) && this.pendingContent.get(file) !== null,
+    );
+  }
+
+  private async canMoveWithGit(filePath: string): Promise<boolean> {
+    if (!this.options.gitMove) {
+      return false;
+    }
+    this.inGitWorkTree ??= await isInsideWorkTree(this.options.testRoot);
+    return this.inGitWorkTree && (await isTracked(filePath));
+  }
+
+  // The file as the fixes so far left it, in a dry run too
+  private async readContent(filePath: string): Promise<string> {
+    const pending = this.pendingContent.get(path.resolve(filePath));
+    if (pending === null) {
+      throw new Error(`File was moved by an earlier fix: ${filePath}`);
+    }
+    return pending ?? fs.readFile(filePath, 'utf8');
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
   }
 }
@@ -0,0 +1,97 @@
+import * as path from 'node:path';
+import { mergeRules } from './config';
+import { AnalyzerOptions, TestProjectFlavour } from './types';
+
+// Without configured flavours every test project is of one flavour, named by
+// testProjectPrefix and testProjectSuffix
+export function getTestProjectFlavours(options: AnalyzerOptions): TestProjectFlavour[] {
+  return options.testProjectFlavours.length > 0
+    ? options.testProjectFlavours
+    : [{ name: 'default', prefix: options.testProjectPrefix, suffix: options.testProjectSuffix }];
+}
+
+function matchesFlavour(projectName: string, flavour: TestProjectFlavour): boolean {
+  const prefix = flavour.prefix ?? '';
+  const suffix = flavour.suffix ?? '';
+  if (
+    projectName.length <= prefix.length + suffix.length ||
+    !projectName.startsWith(prefix) ||
+    !projectName.endsWith(suffix)
+  ) {
+    return false;
+  }
+  // Without a prefix, Tests.* projects such as Tests.Helpers are support code, not tests
+  return prefix !== '' || !projectName.startsWith('Tests.');
+}
+
+function isMappedTestProject(projectName: string, options: AnalyzerOptions): boolean {
+  return Object.values(options.testProjectNames).includes(projectName);
+}
+
+// The longest matching prefix and suffix win, so .IntegrationTests is not taken for Tests.
+// Explicitly mapped test projects belong to the first flavour
+export function findFlavour(
+  projectName: string,
+  flavours: TestProjectFlavour[],
+  options: AnalyzerOptions,
+): TestProjectFlavour | undefined {
+  if (isMappedTestProject(projectName, options)) {
+    return flavours[0];
+  }
+  const affixLength = (flavour: TestProjectFlavour) =>
+    (flavour.prefix ?? '').length + (flavour.suffix ?? '').length;
+  return flavours
+    .filter((flavour) => matchesFlavour(projectName, flavour))
+    .sort((a, b) => affixLength(b) - affixLength(a))[0];
+}
+
+export function isTestProjectName(projectName: string, options: AnalyzerOptions): boolean {
+  return findFlavour(projectName, getTestProjectFlavours(options), options) !== undefined;
+}
+
+// Source project -> test project: the explicit mapping, otherwise prefix + name + suffix
+export function toTestProjectName(sourceProjectName: string, options: AnalyzerOptions): string {
+  return (
+    options.testProjectNames[sourceProjectName] ??
+    options.testProjectPrefix + sourceProjectName + options.testProjectSuffix
+  );
+}
+
+// Test project -> source project, null when the name does not follow the naming scheme
+export function toSourceProjectName(
+  testProjectName: string,
+  options: AnalyzerOptions,
+): string | null {
+  const mapped = Object.entries(options.testProjectNames).find(
+    ([, testProject]) => testProject === testProjectName,
+  );
+  if (mapped) {
+    return mapped[0];
+  }
+
+  const { testProjectPrefix: prefix, testProjectSuffix: suffix } = options;
+  if (!matchesFlavour(testProjectName, { name: '', prefix, suffix })) {
+    return null;
+  }
+  return testProjectName.slice(prefix.length, testProjectName.length - suffix.length);
+}
+
+// Test project directory name below the test root
+export function getTestProjectName(testFilePath: string, options: AnalyzerOptions): string {
+  return path
+    .relative(path.resolve(options.testRoot), path.resolve(testFilePath))
+    .split(/[/\\]/)[0];
+}
+
+// The options the tests of a flavour are analyzed with: its project naming and its rules
+export function getFlavourOptions(
+  options: AnalyzerOptions,
+  flavour: TestProjectFlavour,
+): AnalyzerOptions {
+  return {
+    ...options,
+    testProjectPrefix: flavour.prefix ?? '',
+    testProjectSuffix: flavour.suffix ?? '',
+    rules: flavour.rules ? mergeRules(options.rules, flavour.rules) : options.rules,
+  };
+}
@@ -0,0 +1,162 @@
+import { execFile } from 'node:child_process';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+async function git(args: string[], cwd: string): Promise<string> {
+  // The history can be long, the default buffer of 1 MB is not enough for a log
+  const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+  return stdout.trim();
+}
+
+// False as well when git is not installed
+export async function isInsideWorkTree(dir: string): Promise<boolean> {
+  try {
+    return (await git(['rev-parse', '--is-inside-work-tree'], dir)) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export async function isTracked(filePath: string): Promise<boolean> {
+  try {
+    await git(
+      ['ls-files', '--error-unmatch', '--', path.basename(filePath)],
+      path.dirname(filePath),
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The destination directory has to exist
+export async function gitMove(from: string, to: string): Promise<void> {
+  const cwd = path.dirname(from);
+
+  try {
+    if (from.toLowerCase() === to.toLowerCase()) {
+      // Case-only renames go through a temporary name, case-insensitive file systems would
+      // otherwise see the source and destination as the same file
+      const tempPath = path.join(path.dirname(from), `temp_${Date.now()}_${path.basename(to)}`);
+      await git(['mv', '--', from, tempPath], cwd);
+      await git(['mv', '--', tempPath, to], cwd);
+    } else {
+      await git(['mv', '--', from, to], cwd);
+    }
+  } catch (error) {
+    throw new Error(
+      `Failed to git mv ${from}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
+
+// Files renamed in the history below dir, old path -> latest path, both absolute. Empty outside
+// of a git work tree
+export async function findRenames(dir: string): Promise<Map<string, string>> {
+  const renames = new Map<string, string>();
+
+  try {
+    const root = await git(['rev-parse', '--show-toplevel'], dir);
+    const log = await git(
+      [
+        '-c',
+        'core.quotePath=false',
+        'log',
+        '-M',
+        '--diff-filter=R',
+        '--name-status',
+        '--format=',
+        '--',
+        '.',
+      ],
+      dir,
+    );
+    // Newest first, so a later rename of the new path is already known and the chain resolves
+    for (const line of log.split('\n')) {
+      const [status, from, to] = line.split('\t');
+      if (!status?.startsWith('R') || !from || !to) {
+        continue;
+      }
+      const newPath = path.resolve(root, to);
+      renames.set(path.resolve(root, from), renames.get(newPath) ?? newPath);
+    }
+  } catch {
+    // No history to learn from
+  }
+
+  return renames;
+}
+
+export interface ChangedFiles {
+  // Added, modified, copied and renamed files at their current paths, absolute
+  paths: Set<string>;
+  // Deleted files and the old paths of renamed ones
+  removed: Set<string>;
+  // Old path -> new path of the renamed files
+  renames: Map<string, string>;
+}
+
+export interface ChangeScope {
+  // Changes of the work tree since the merge base of this ref and HEAD, untracked files included
+  since?: string;
+  // Only the changes staged for the next commit
+  staged?: boolean;
+}
+
+// Files changed within the scope, paths from the whole repository of dir
+export async function findChangedFiles(dir: string, scope: ChangeScope): Promise<ChangedFiles> {
+  const changes: ChangedFiles = { paths: new Set(), removed: new Set(), renames: new Map() };
+  const description = scope.staged ? 'staged files' : `files changed since ${scope.since}`;
+
+  try {
+    const root = await git(['rev-parse', '--show-toplevel'], dir);
+    let diffArgs: string[];
+    if (scope.staged) {
+      diffArgs = ['--cached'];
+    } else {
+      // Changes on the ref's side since the branches split are not ours
+      const base = await git(['merge-base', scope.since!, 'HEAD'], root).catch(() => scope.since!);
+      diffArgs = [base];
+    }
+
+    const diff = await git(
+      ['-c', 'core.quotePath=false', 'diff', '-M', '--name-status', ...diffArgs, '--'],
+      root,
+    );
+    for (const line of diff.split('\n')) {
+      const [status, from, to] = line.split('\t');
+      if (!status || !from) {
+        continue;
+      }
+      if (status.startsWith('R') && to) {
+        changes.renames.set(path.resolve(root, from), path.resolve(root, to));
+        changes.removed.add(path.resolve(root, from));
+        changes.paths.add(path.resolve(root, to));
+      } else if (status.startsWith('C') && to) {
+        changes.paths.add(path.resolve(root, to));
+      } else if (status === 'D') {
+        changes.removed.add(path.resolve(root, from));
+      } else {
+        changes.paths.add(path.resolve(root, from));
+      }
+    }
+
+    if (!scope.staged) {
+      const untracked = await git(
+        ['-c', 'core.quotePath=false', 'ls-files', '--others', '--exclude-standard'],
+        root,
+      );
+      for (const file of untracked.split('\n').filter(Boolean)) {
+        changes.paths.add(path.resolve(root, file));
+      }
+    }
+  } catch (error) {
+    throw new Error(
+      `Failed to list the ${description}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  return changes;
+}
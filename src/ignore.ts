@@ -0,0 +1,227 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Minimatch } from 'minimatch';
+import { AnalyzerOptions } from './types';
+
+// Every file the analysis, the results and the fixer look at goes through one matcher per
+// side, so discovery and reporting agree on what is ignored
+
+export type IgnoreSide = 'source' | 'test';
+
+export const TFSL_IGNORE_FILE = '.tfslignore';
+const GIT_IGNORE_FILE = '.gitignore';
+
+interface IgnoreRule {
+  negated: boolean;
+  // Only matches directories, i.e. the folders a file is in
+  directoryOnly: boolean;
+  // Paths are matched relative to this directory, files outside of it never match
+  base: string;
+  matcher: Minimatch;
+}
+
+export interface IgnoreMatcher {
+  ignores(filePath: string): boolean;
+  // Whether nothing below the directory can be wanted, so a walk need not read it
+  ignoresDirectory(dirPath: string): boolean;
+}
+
+function toPosix(filePath: string): string {
+  return filePath.replaceAll(/\\/g, '/');
+}
+
+// gitignore semantics: a pattern with a slash other than a trailing one is anchored to its
+// base directory, any other matches at every depth below it. ! re-includes what an earlier
+// pattern ignored
+function createRule(pattern: string, base: string, nocase = false): IgnoreRule | null {
+  const negated = pattern.startsWith('!');
+  let body = negated ? pattern.slice(1) : pattern;
+  const directoryOnly = body.endsWith('/');
+  body = body.replace(/\/+$/, '');
+  if (body === '') {
+    return null;
+  }
+
+  const anchored = body.includes('/');
+  let ruleBase = base;
+  if (anchored && path.isAbsolute(body)) {
+    ruleBase = path.parse(body).root;
+    body = path.relative(ruleBase, body);
+  } else if (anchored) {
+    body = body.replace(/^\//, '');
+  } else {
+    body = `**/${body}`;
+  }
+
+  return {
+    negated,
+    directoryOnly,
+    base: ruleBase,
+    matcher: new Minimatch(toPosix(body), { dot: true, nocase }),
+  };
+}
+
+function matchesRule(rule: IgnoreRule, filePath: string, isDirectory = false): boolean {
+  const relative = path.relative(rule.base, filePath);
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return false;
+  }
+
+  // A pattern matching one of the folders ignores everything in it
+  const segments = toPosix(relative).split('/');
+  const start = rule.directoryOnly && !isDirectory ? segments.length - 1 : segments.length;
+  for (let length = start; length > 0; length--) {
+    if (rule.matcher.match(segments.slice(0, length).join('/'))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Whether the rule could match the directory or a path below it, so a negated rule re-includes
+// something there
+function couldMatchBelow(rule: IgnoreRule, dirPath: string): boolean {
+  const relative = path.relative(rule.base, dirPath);
+  if (relative === '') {
+    return true;
+  }
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    // Rules of a folder below the directory match in there
+    const inside = path.relative(dirPath, rule.base);
+    return !inside.startsWith('..') && !path.isAbsolute(inside);
+  }
+
+  const segments = toPosix(relative).split('/');
+  return (
+    rule.matcher.match(segments.join('/'), true) ||
+    segments.some((_, index) => rule.matcher.match(segments.slice(0, index + 1).join('/')))
+  );
+}
+
+function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '' && !line.startsWith('#'))
+    .map((line) => createRule(line, base))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+function readIgnoreFile(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+// Ignore files of the root and the folders above it up to the repository root, outermost
+// first so the inner ones take precedence
+function findIgnoreFileRules(root: string, fileNames: string[]): IgnoreRule[] {
+  const dirs: string[] = [];
+  let dir = path.resolve(root);
+  for (;;) {
+    dirs.unshift(dir);
+    const parent = path.dirname(dir);
+    if (fs.existsSync(path.join(dir, '.git')) || parent === dir) {
+      break;
+    }
+    dir = parent;
+  }
+
+  return dirs.flatMap((ignoreDir) => readIgnoreFileRules(ignoreDir, fileNames));
+}
+
+function readIgnoreFileRules(dir: string, fileNames: string[]): IgnoreRule[] {
+  return fileNames.flatMap((fileName) => {
+    const content = readIgnoreFile(path.join(dir, fileName));
+    return content === null ? [] : parseIgnoreFile(content, dir);
+  });
+}
+
+// Folders below the root down to the one holding the path, outermost first
+function foldersBelow(root: string, filePath: string): string[] {
+  const relative = path.relative(root, path.dirname(filePath));
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return [];
+  }
+  const segments = relative.split(path.sep);
+  return segments.map((_, index) => path.join(root, ...segments.slice(0, index + 1)));
+}
+
+// Patterns given on the command line are relative to the working directory, the ones of a
+// config file are resolved relative to it on load. Patterns starting with **/ match at any
+// depth below the root, wherever it is
+export function resolveIgnorePattern(pattern: string, baseDir: string): string {
+  const negated = pattern.startsWith('!');
+  const body = negated ? pattern.slice(1) : pattern;
+  if (!body.replace(/\/+$/, '').includes('/') || body.startsWith('**/') || path.isAbsolute(body)) {
+    return pattern;
+  }
+  const resolved = toPosix(path.resolve(baseDir, body)) + (body.endsWith('/') ? '/' : '');
+  return (negated ? '!' : '') + resolved;
+}
+
+export function createIgnoreMatcher(options: AnalyzerOptions, side: IgnoreSide): IgnoreMatcher {
+  const root = path.resolve(side === 'source' ? options.srcRoot : options.testRoot);
+  const patterns = side === 'source' ? options.sourceIgnorePatterns : options.testIgnorePatterns;
+  const cwd = process.cwd();
+  const ignoreFileNames = options.respectGitignore
+    ? [GIT_IGNORE_FILE, TFSL_IGNORE_FILE]
+    : [TFSL_IGNORE_FILE];
+
+  const outerRules: IgnoreRule[] = [
+    // Bare folder and file names match anywhere below the root, regardless of case
+    ...['node_modules', ...options.ignoreDirectories].map((name) =>
+      createRule(`${name}/`, root, true),
+    ),
+    ...options.ignoreFiles.map((name) => createRule(name, root, true)),
+    ...findIgnoreFileRules(root, ignoreFileNames),
+  ].filter((rule): rule is IgnoreRule => rule !== null);
+  const patternRules = patterns
+    .map((pattern) => createRule(resolveIgnorePattern(pattern, cwd), root))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+
+  // Ignore files in the folders below the root only apply inside their folder, they are read
+  // the first time a path in it is matched
+  const folderRules = new Map<string, IgnoreRule[]>();
+  const rulesFor = (resolvedPath: string): IgnoreRule[] => {
+    const nestedRules = foldersBelow(root, resolvedPath).flatMap((dir) => {
+      let rules = folderRules.get(dir);
+      if (!rules) {
+        rules = readIgnoreFileRules(dir, ignoreFileNames);
+        folderRules.set(dir, rules);
+      }
+      return rules;
+    });
+    // Inner ignore files take precedence over outer ones, the command line over all of them
+    return [...outerRules, ...nestedRules, ...patternRules];
+  };
+
+  return {
+    ignores(filePath) {
+      const resolvedPath = path.resolve(filePath);
+      let ignored = false;
+      for (const rule of rulesFor(resolvedPath)) {
+        if (rule.negated === ignored && matchesRule(rule, resolvedPath)) {
+          ignored = !rule.negated;
+        }
+      }
+      return ignored;
+    },
+    ignoresDirectory(dirPath) {
+      const resolvedPath = path.resolve(dirPath);
+      const rules = rulesFor(resolvedPath);
+      const ignoredBy = rules.findIndex(
+        (rule) => !rule.negated && matchesRule(rule, resolvedPath, true),
+      );
+      // A later negated pattern may re-include a file below the ignored folder
+      return (
+        ignoredBy !== -1 &&
+        !rules
+          .slice(ignoredBy + 1)
+          .some((rule) => rule.negated && couldMatchBelow(rule, resolvedPath))
+      );
+    },
+  };
+}
@@ -1,33 +1,174 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import * as path from 'node:path';
-import * as fs from 'node:fs';
 import {
-  AnalysisError,
   AnalysisErrorType,
   AnalysisResult,
   AnalyzerOptions,
   DEFAULT_OPTIONS,
+  LinterEvent,
+  RulesConfig,
 } from './types';
 import { ConsoleReporter } from './console-reporter';
-import { Analyzer } from './analyzer';
-import { Fixer } from './fixer';
-import { generateJsonReport } from './json-reporter';
+import {
+  CLASS_NAME_FIXES,
+  ClassNameFix,
+  DEFAULT_FIX_OPTIONS,
+  Fixer,
+  FixResult,
+  isFixableError,
+} from './fixer';
+import { analyze, Analyzer, saveJsonReport } from './api';
+import { loadConfig, mergeOptions } from './config';
+import { findRule } from './rules';
+import { applyBaseline, loadBaseline } from './baseline';
+import { getExitCode, isRuleSeverity, RULE_SEVERITIES } from './severity';
+import { isTestFramework, TEST_FRAMEWORKS, TestFramework } from './templates';
+import { isSplitTestPattern } from './split-tests';
+import { createFixPlan, saveFixPlan } from './fix-plan';
+import { DEFAULT_JOURNAL_DIR, undoSession } from './journal';
+import { clearCache } from './analysis-cache';
+import { diffFindings, watchDirectories } from './watch';
 
 // Import package.json for version information
 import packageJson from '../package.json';
 
 const program = new Command();
 
+// Validations stay opt-in on the command line unless a config file turns them on
+const CLI_DEFAULTS: AnalyzerOptions = {
+  ...DEFAULT_OPTIONS,
+  validateFileName: false,
+  validateDirectoryStructure: false,
+  validateMissingTests: false,
+  cache: true,
+};
+
+// Commander option names mapped to the analyzer options they override
+const CLI_OPTION_MAP: [string, keyof AnalyzerOptions][] = [
+  ['srcRoot', 'srcRoot'],
+  ['testRoot', 'testRoot'],
+  ['ext', 'fileExtension'],
+  ['name', 'validateFileName'],
+  ['dir', 'validateDirectoryStructure'],
+  ['missing', 'validateMissingTests'],
+  ['testSuffix', 'testFileSuffix'],
+  ['testProjectSuffix', 'testProjectSuffix'],
+  ['testProjectPrefix', 'testProjectPrefix'],
+  ['splitTests', 'splitTestPatterns'],
+  ['ignoreDirectories', 'ignoreDirectories'],
+  ['ignoreFiles', 'ignoreFiles'],
+  ['ignoreSource', 'sourceIgnorePatterns'],
+  ['ignoreTests', 'testIgnorePatterns'],
+  ['gitignore', 'respectGitignore'],
+  ['cache', 'cache'],
+  ['cacheDir', 'cacheDir'],
+  ['changedSince', 'changedSince'],
+  ['staged', 'staged'],
+  ['severity', 'rules'],
+  ['maxWarnings', 'maxWarnings'],
+  ['baseline', 'baseline'],
+  ['gitMv', 'gitMove'],
+  ['solution', 'solution'],
+];
+
+// Parses "missing-test=warning,invalid-file-name=off" into rule settings
+function parseSeverities(val: string): RulesConfig {
+  const rules: RulesConfig = {};
+
+  for (const entry of val.replaceAll(/["']/g, '').split(',')) {
+    const [ruleId, severity] = entry.split('=').map((s) => s.trim());
+    const rule = findRule(ruleId);
+    if (!rule) {
+      throw new InvalidArgumentError(`Unknown rule "${ruleId}".`);
+    }
+    if (!isRuleSeverity(severity)) {
+      throw new InvalidArgumentError(
+        `Severity of "${ruleId}" must be one of ${RULE_SEVERITIES.join(', ')}.`,
+      );
+    }
+    rules[rule.id] = { severity };
+  }
+
+  return rules;
+}
+
+function parseTestFramework(val: string): TestFramework {
+  if (!isTestFramework(val)) {
+    throw new InvalidArgumentError(`Must be one of ${TEST_FRAMEWORKS.join(', ')}.`);
+  }
+  return val;
+}
+
+function parseClassNameFix(val: string): ClassNameFix {
+  if (!(CLASS_NAME_FIXES as readonly string[]).includes(val)) {
+    throw new InvalidArgumentError(`Must be one of ${CLASS_NAME_FIXES.join(', ')}.`);
+  }
+  return val as ClassNameFix;
+}
+
+function parseMaxWarnings(val: string): number {
+  const maxWarnings = Number(val);
+  if (!Number.isInteger(maxWarnings)) {
+    throw new InvalidArgumentError('Must be an integer.');
+  }
+  return maxWarnings;
+}
+
+// Splits at the commas outside of brace lists, so **/*.{g,designer}.cs stays one pattern
+function parseIgnorePatterns(val: string): string[] {
+  return val
+    .replaceAll(/["']/g, '')
+    .split(/,(?![^{]*\})/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function parseSplitTestPatterns(val: string): string[] {
+  const patterns = val
+    .replaceAll(/["']/g, '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const invalid = patterns.find((pattern) => !isSplitTestPattern(pattern));
+  if (invalid !== undefined) {
+    throw new InvalidArgumentError(`"${invalid}" must contain {Source} and {Topic} once.`);
+  }
+  return patterns;
+}
+
+function collectCliOverrides(
+  options: Record<string, unknown>,
+  command: Command,
+): Partial<AnalyzerOptions> {
+  const overrides: Partial<AnalyzerOptions> = {};
+
+  for (const [optionName, analyzerKey] of CLI_OPTION_MAP) {
+    // Commander fills in defaults too, only values typed by the user may override the config
+    if (command.getOptionValueSource(optionName) === 'cli') {
+      Object.assign(overrides, { [analyzerKey]: options[optionName] });
+    }
+  }
+
+  return overrides;
+}
+
 program
   .name('test-filestructure-linter')
   .description('CLI tool for analyzing test file structure')
   .version(packageJson.version)
-  .requiredOption('-s, --src-root <path>', 'Source files root directory')
-  .requiredOption('-t, --test-root <path>', 'Test files root directory')
+  // Lets subcommands such as undo have their own options
+  .enablePositionalOptions()
+  .option('-s, --src-root <path>', 'Source files root directory')
+  .option('-t, --test-root <path>', 'Test files root directory')
+  .option('-c, --config <path>', 'Path to a config file (default: discovered from the cwd upwards)')
   .option('-e, --ext <ext>', 'File extension to analyze', DEFAULT_OPTIONS.fileExtension)
+  .option(
+    '--solution <path>',
+    'Find test and source projects through this .sln and its .csproj references',
+  )
   .option('-n, --name', 'Enable filename validation')
   .option('-d, --dir', 'Enable directory structure validation')
   .option('-m, --missing', 'Enable validation of missing test files')
@@ -37,6 +178,16 @@ program
     'Test project suffix',
     DEFAULT_OPTIONS.testProjectSuffix,
   )
+  .option(
+    '--test-project-prefix <prefix>',
+    'Test project prefix, e.g. "Tests." for Tests.Billing',
+    DEFAULT_OPTIONS.testProjectPrefix,
+  )
+  .option(
+    '--split-tests <patterns>',
+    'Comma-separated names of further test files of one source, e.g. "{Source}.{Topic}Tests"',
+    parseSplitTestPatterns,
+  )
   .option(
     '--ignore-directories <directories>',
     'Comma-separated list of directories to ignore',
@@ -59,45 +210,168 @@ program
       .map((s) => s.trim())
       .filter(Boolean);
   })
-  .option('-o, --output <path>', 'Output JSON report to file (default: test-filestructure-linter-results/result-<datetime>.json)')
+  .option(
+    '--ignore-source <patterns>',
+    'Comma-separated gitignore-style patterns of source files to ignore, e.g. "src/Legacy/**"',
+    parseIgnorePatterns,
+  )
+  .option(
+    '--ignore-tests <patterns>',
+    'Comma-separated gitignore-style patterns of test files to ignore, e.g. "**/*.g.cs"',
+    parseIgnorePatterns,
+  )
+  .option('--gitignore', 'Also ignore the files ignored by .gitignore')
+  .option('--no-cache', 'Read every file instead of reusing what earlier runs read')
+  .option('--cache-dir <path>', 'Where the analysis cache is kept', DEFAULT_OPTIONS.cacheDir)
+  .option('--clear-cache', 'Delete the analysis cache before analyzing')
+  .option(
+    '--changed-since <ref>',
+    'Only report findings about files changed since this git ref, e.g. origin/main',
+  )
+  .option('--staged', 'Only report findings about the files staged in git')
+  .option(
+    '--severity <rules>',
+    'Comma-separated rule severities, e.g. missing-test=warning (error, warning, info, off)',
+    parseSeverities,
+  )
+  .option(
+    '--max-warnings <count>',
+    'Fail when there are more warnings than this (default: no limit)',
+    parseMaxWarnings,
+  )
+  .option('--baseline <path>', 'Only report findings that are not recorded in this baseline file')
+  .option('--update-baseline', 'Record all current findings in the baseline file')
+  .option(
+    '-o, --output <path>',
+    'Output JSON report to file (default: test-filestructure-linter-results/result-<datetime>.json)',
+  )
+  .option('-w, --watch', 'Keep running and re-analyze when files under the roots change')
   .option('-a, --all', 'Fix all directory structure issues by moving files')
   .option('-f, --fix <path>', 'Fix a specific test file')
   .option('-i, --interactive', 'Interactive mode - select files to fix')
-  .action(async (options) => {
+  .option('--dry-run', 'Show the fixes as a move list and diffs without changing any file')
+  .option('--plan-output <path>', 'Write the fixes to a JSON plan file')
+  .option('--journal-dir <path>', 'Where applied fixes are recorded for undo', DEFAULT_JOURNAL_DIR)
+  .option(
+    '--class-name-fix <target>',
+    `What to rename when the test class is not named like its file (${CLASS_NAME_FIXES.join(', ')})`,
+    parseClassNameFix,
+    'class',
+  )
+  .option('--no-git-mv', 'Move and rename files without git mv')
+  .option('--scaffold-missing', 'Create the missing test files from a template (requires -m)')
+  .option(
+    '--test-framework <framework>',
+    `Built-in template for --scaffold-missing (${TEST_FRAMEWORKS.join(', ')})`,
+    parseTestFramework,
+    DEFAULT_FIX_OPTIONS.testFramework,
+  )
+  .option(
+    '--test-template <path>',
+    'Template file for --scaffold-missing, overrides --test-framework',
+  )
+  .action(async (options, command: Command) => {
     const reporter = new ConsoleReporter();
 
     try {
+      const config = loadConfig(options.config);
+      if (config) {
+        console.log(chalk.gray(`\nUsing config: ${config.filePath}`));
+      }
+
+      const cliOverrides = collectCliOverrides(options, command);
+      for (const [flag, key] of [
+        ['-s, --src-root <path>', 'srcRoot'],
+        ['-t, --test-root <path>', 'testRoot'],
+      ] as const) {
+        if (cliOverrides[key] === undefined && config?.options[key] === undefined) {
+          throw new Error(`required option '${flag}' not specified (pass it or set "${key}")`);
+        }
+      }
+
+      const analyzerOptions = mergeOptions(CLI_DEFAULTS, config?.options, cliOverrides);
+      if (
+        options.watch &&
+        (options.all || options.fix || options.interactive || options.scaffoldMissing)
+      ) {
+        throw new Error('--watch cannot be combined with fixes (-a, -f, -i, --scaffold-missing)');
+      }
+
       // Convert paths to absolute
-      const srcRoot = path.resolve(options.srcRoot);
-      const testRoot = path.resolve(options.testRoot);
+      const srcRoot = path.resolve(analyzerOptions.srcRoot);
+      const testRoot = path.resolve(analyzerOptions.testRoot);
+      analyzerOptions.srcRoot = srcRoot;
+      analyzerOptions.testRoot = testRoot;
 
       console.log(chalk.gray('\nPaths:'));
       console.log(chalk.gray(`Source root: ${srcRoot}`));
       console.log(chalk.gray(`Test root: ${testRoot}`));
 
-      const analyzerOptions: AnalyzerOptions = {
-        srcRoot,
-        testRoot,
-        fileExtension: options.ext,
-        validateFileName: options.name === true,
-        validateDirectoryStructure: options.dir === true,
-        validateMissingTests: options.missing === true,
-        testFileSuffix: options.testSuffix,
-        testProjectSuffix: options.testProjectSuffix,
-        ignoreDirectories: options.ignoreDirectories || DEFAULT_OPTIONS.ignoreDirectories,
-        ignoreFiles: options.ignoreFiles || DEFAULT_OPTIONS.ignoreFiles,
-      };
+      if (options.clearCache) {
+        await clearCache(analyzerOptions.cacheDir);
+        console.log(chalk.gray(`Cache cleared: ${path.resolve(analyzerOptions.cacheDir)}`));
+      }
 
       console.log(chalk.cyan('\nAnalyzing test structure...'));
-      const analyzer = new Analyzer();
-      const fixer = new Fixer();
-      const { results, totalFiles } = await analyzer.analyzeProject(analyzerOptions);
+      // Warnings about single files show up in the watch summary
+      const onEvent = (event: LinterEvent) => {
+        if (event.type === 'diagnostic' && event.level === 'info') {
+          console.log(chalk.green(`\n${event.message}`));
+        }
+      };
+      const analyzer = new Analyzer(onEvent);
+      const fixer = new Fixer(analyzerOptions, {
+        dryRun: Boolean(options.dryRun),
+        journalDir: options.journalDir,
+        classNameFix: options.classNameFix,
+      });
+      // Progress wording for real fixes and for dry runs
+      const describe = (done: string, planned: string) => (options.dryRun ? planned : done);
+      // Content-only fixes keep the file where it is
+      const reportFix = ({ from, to, references = [] }: FixResult) => {
+        console.log(
+          chalk.gray(
+            from === to
+              ? `  ${describe('Updated', 'Would update')}: ${to}`
+              : `  ${describe('Moved', 'Would move')}: ${from} → ${to}`,
+          ),
+        );
+        for (const reference of references) {
+          console.log(
+            chalk.gray(`    ↳ ${describe('Updated', 'Would update')} reference in: ${reference}`),
+          );
+        }
+      };
+      if (options.updateBaseline && !analyzerOptions.baseline) {
+        throw new Error('--update-baseline requires a baseline file (--baseline <path>)');
+      }
+      const analysis = await analyze(analyzerOptions, {
+        analyzer,
+        updateBaseline: Boolean(options.updateBaseline),
+        onEvent,
+      });
+      const { results, totalFiles, baseline: baselineOutcome } = analysis;
+      if (analysis.cache) {
+        const { reused, read } = analysis.cache;
+        console.log(chalk.gray(`Cache: ${reused} of ${reused + read} files unchanged`));
+      }
+      if (analysis.changedFiles !== null) {
+        const scope = analyzerOptions.staged
+          ? 'staged'
+          : `changed since ${analyzerOptions.changedSince}`;
+        console.log(chalk.gray(`Reporting on ${analysis.changedFiles} files ${scope}`));
+      }
+
       reporter.reportResults(results, totalFiles, options.interactive);
+      reporter.reportSuppressed(analysis.suppressed.length);
+      reporter.reportExemptions(analysis.exemptions.length);
+      if (baselineOutcome) {
+        reporter.reportBaseline(baselineOutcome);
+      }
 
       // Generate JSON report if output option is provided
       if (options.output !== undefined) {
         try {
-          const jsonReport = generateJsonReport(results, totalFiles);
           let outputPath: string;
 
           if (typeof options.output === 'string') {
@@ -117,14 +391,7 @@ program
             outputPath = path.resolve(`test-filestructure-linter-results/result-${datetime}.json`);
           }
 
-          // Create parent directories if they don't exist
-          const outputDir = path.dirname(outputPath);
-          if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
-          }
-
-          // Write JSON report to file
-          fs.writeFileSync(outputPath, jsonReport, 'utf-8');
+          await saveJsonReport(analysis, outputPath);
           console.log(chalk.green(`\nJSON report saved to: ${outputPath}`));
         } catch (error) {
           console.error(
@@ -134,6 +401,42 @@ program
         }
       }
 
+      if (options.watch) {
+        // Each redraw tells what changed since the one before, the first report included
+        let previousResults = results;
+        const baseline = analyzerOptions.baseline
+          ? await loadBaseline(analyzerOptions.baseline)
+          : undefined;
+        watchDirectories(analyzer.getWatchRoots(), async (changedPaths) => {
+          try {
+            const update = await analyzer.reanalyze(changedPaths);
+            if (update.touchedFiles === 0 && update.unreadableFiles.length === 0) {
+              return;
+            }
+            const currentResults = baseline
+              ? applyBaseline(update.results, baseline, analyzerOptions, update.activeRuleIds)
+                  .results
+              : update.results;
+            reporter.reportWatchUpdate({
+              results: currentResults,
+              totalFiles: update.totalFiles,
+              delta: diffFindings(previousResults, currentResults, analyzerOptions),
+              reanalyzedTests: update.reanalyzedTests,
+              unreadableFiles: update.unreadableFiles,
+            });
+            previousResults = currentResults;
+          } catch (error) {
+            // The next change gets another try
+            console.error(
+              chalk.red('\nError:'),
+              error instanceof Error ? error.message : 'An unknown error occurred',
+            );
+          }
+        });
+        console.log(chalk.gray('\nWatching for changes, press Ctrl+C to stop'));
+        return;
+      }
+
       if (results.length > 0) {
         if (options.fix) {
           // Fix specific file
@@ -141,26 +444,21 @@ program
           const fixable = await fixer.isFixable(testPath, results);
 
           if (fixable.isFixable && fixable.fix) {
-            console.log(chalk.cyan('\nFixing file...'));
+            console.log(chalk.cyan(`\n${describe('Fixing', 'Planning fix for')} file...`));
             const result = await fixable.fix();
-            console.log(chalk.green(`\n✓ Fixed file:`));
-            console.log(chalk.gray(`  Moved: ${result.from} → ${result.to}`));
+            if (result) {
+              console.log(chalk.green(`\n✓ ${describe('Fixed', 'Would fix')} file:`));
+              reportFix(result);
+            } else {
+              console.log(chalk.yellow('\nNothing to fix, the file is left unchanged.'));
+            }
           } else {
             console.error(chalk.red(`\nError: ${fixable.error}`));
             process.exit(1);
           }
         } else if (options.interactive) {
           // Interactive mode
-          const fixableFiles = results.filter((r: AnalysisResult) =>
-            r.errors.some(
-              (e: AnalysisError) =>
-                (e.type === AnalysisErrorType.InvalidDirectoryStructure ||
-                  e.type === AnalysisErrorType.InvalidFileName) &&
-                e.actualTestPath &&
-                e.expectedTestPath &&
-                e.sourceFilePath,
-            ),
-          );
+          const fixableFiles = results.filter((r: AnalysisResult) => r.errors.some(isFixableError));
 
           if (fixableFiles.length === 0) {
             console.log(chalk.yellow('\nNo fixable files found.'));
@@ -185,20 +483,25 @@ program
                 message: chalk.cyan('Select files to fix'),
                 hint: '(Use arrow keys and space to select, enter to confirm)',
                 choices: currentFiles.map((file: AnalysisResult) => {
-                  const error = file.errors.find(
-                    (e: AnalysisError) =>
-                      e.type === AnalysisErrorType.InvalidDirectoryStructure ||
-                      e.type === AnalysisErrorType.InvalidFileName,
-                  );
+                  const error = file.errors.find(isFixableError);
                   const currentPath = path.relative(testRoot, file.testFilePath);
                   const targetPath = error?.expectedTestPath
                     ? path.relative(testRoot, error.expectedTestPath)
                     : '';
 
-                  const pathDisplay = targetPath
+                  let pathDisplay = targetPath
                     ? `\n    ${chalk.yellow('📂')} Current:  ${chalk.gray(currentPath)}` +
                       `\n    ${chalk.cyan('📂')} Expected: ${chalk.gray(targetPath)}`
                     : chalk.gray(currentPath);
+                  if (error?.type === AnalysisErrorType.ClassNameMismatch) {
+                    pathDisplay =
+                      `\n    ${chalk.yellow('📂')} Current:  ${chalk.gray(currentPath)}` +
+                      `\n    ${chalk.cyan('🏷️')}  Class:    ${chalk.gray(error.className)}`;
+                  } else if (error?.type === AnalysisErrorType.OrphanedTest) {
+                    pathDisplay =
+                      `\n    ${chalk.yellow('📂')} Current:  ${chalk.gray(currentPath)}` +
+                      `\n    ${chalk.cyan('💡')} Orphaned, ${error.suggestions?.length} suggestions`;
+                  }
 
                   return {
                     name: file.testFilePath,
@@ -246,16 +549,66 @@ program
             process.exit(0);
           }
 
-          console.log(chalk.cyan('\nFixing selected files...'));
+          console.log(
+            chalk.cyan(`\n${describe('Fixing', 'Planning fixes for')} selected files...`),
+          );
           let fixedCount = 0;
 
           for (const testPath of selectedPaths) {
-            const fixable = await fixer.isFixable(testPath, results);
+            // Class name mismatches can be fixed from either side, let the user pick
+            let classNameFix: ClassNameFix = options.classNameFix;
+            const fixableError = results
+              .find((r) => r.testFilePath === testPath)
+              ?.errors.find(isFixableError);
+            if (fixableError?.type === AnalysisErrorType.ClassNameMismatch) {
+              const targetPrompt = new (require('enquirer').Select)({
+                message: chalk.cyan(
+                  `${path.basename(testPath)} declares ${fixableError.className}, what should be renamed?`,
+                ),
+                choices: [
+                  { name: 'class', message: `The class, to ${path.parse(testPath).name}` },
+                  {
+                    name: 'file',
+                    message: `The file, to ${fixableError.className}${path.extname(testPath)}`,
+                  },
+                ],
+              });
+              classNameFix = await targetPrompt.run();
+            }
+
+            // Orphaned tests are fixed by moving them to one of the suggested sources
+            let suggestionIndex = 0;
+            if (fixableError?.type === AnalysisErrorType.OrphanedTest && fixableError.suggestions) {
+              const suggestionPrompt = new (require('enquirer').Select)({
+                message: chalk.cyan(
+                  `${path.basename(testPath)} has no source, which one does it test?`,
+                ),
+                choices: fixableError.suggestions.map((suggestion, index) => ({
+                  name: String(index),
+                  message:
+                    `${path.relative(srcRoot, suggestion.sourceFilePath)} → ` +
+                    `${path.relative(testRoot, suggestion.expectedTestPath)}`,
+                  hint:
+                    suggestion.reason === 'git-rename'
+                      ? 'renamed in git'
+                      : `similar name, ${Math.round(suggestion.similarity * 100)}%`,
+                })),
+              });
+              suggestionIndex = Number(await suggestionPrompt.run());
+            }
+
+            const fixable = await fixer.isFixable(testPath, results, classNameFix, suggestionIndex);
             if (fixable.isFixable && fixable.fix) {
               try {
                 const result = await fixable.fix();
-                console.log(chalk.green(`✓ Fixed: ${path.basename(result.from)}`));
-                console.log(chalk.gray(`  Moved: ${result.from} → ${result.to}`));
+                if (!result) {
+                  console.log(chalk.yellow(`  Nothing to fix: ${path.basename(testPath)}`));
+                  continue;
+                }
+                console.log(
+                  chalk.green(`✓ ${describe('Fixed', 'Would fix')}: ${path.basename(result.from)}`),
+                );
+                reportFix(result);
                 fixedCount++;
               } catch (err) {
                 console.error(
@@ -268,19 +621,71 @@ program
           }
 
           if (fixedCount > 0) {
-            console.log(chalk.green(`\n✓ Fixed ${fixedCount} files`));
+            console.log(chalk.green(`\n✓ ${describe('Fixed', 'Would fix')} ${fixedCount} files`));
           }
         } else if (options.all) {
-          console.log(chalk.cyan('\nFixing directory structure issues...'));
+          console.log(
+            chalk.cyan(
+              `\n${describe('Fixing', 'Planning fixes for')} directory structure issues...`,
+            ),
+          );
           const fixedFiles = await fixer.fixDirectoryStructure(results, analyzerOptions);
           if (fixedFiles.length > 0) {
-            console.log(chalk.green(`\n✓ Fixed ${fixedFiles.length} files:`));
-            for (const { from, to } of fixedFiles) {
-              console.log(chalk.gray(`  Moved: ${from} → ${to}`));
+            console.log(
+              chalk.green(`\n✓ ${describe('Fixed', 'Would fix')} ${fixedFiles.length} files:`),
+            );
+            for (const fixed of fixedFiles) {
+              reportFix(fixed);
+            }
+          }
+        } else if (options.scaffoldMissing) {
+          console.log(chalk.cyan(`\n${describe('Creating', 'Planning')} missing test files...`));
+          const scaffold = await fixer.scaffoldMissingTests(results, {
+            ...DEFAULT_FIX_OPTIONS,
+            testFramework: options.testFramework,
+            templatePath: options.testTemplate && path.resolve(options.testTemplate),
+          });
+          if (scaffold.created.length > 0) {
+            console.log(
+              chalk.green(
+                `\n✓ ${describe('Created', 'Would create')} ${scaffold.created.length} test files:`,
+              ),
+            );
+            for (const { from, to } of scaffold.created) {
+              console.log(
+                chalk.gray(
+                  `  ${describe('Created', 'Would create')}: ${to} (for ${path.basename(from)})`,
+                ),
+              );
             }
           }
+          for (const skipped of scaffold.skipped) {
+            console.log(chalk.yellow(`  Skipped, file already exists: ${skipped}`));
+          }
         } else {
-          process.exit(1);
+          process.exit(getExitCode(results, analyzerOptions.maxWarnings));
+        }
+
+        await fixer.finishSession();
+        const sessionId = fixer.getSessionId();
+        if (sessionId) {
+          console.log(
+            chalk.gray(
+              `\nFixes recorded as session ${sessionId}, revert them with: undo ${sessionId}`,
+            ),
+          );
+        }
+
+        const plannedFixes = fixer.getPlannedFixes();
+        if (options.dryRun) {
+          reporter.reportFixPlan(plannedFixes);
+        }
+        if (options.planOutput) {
+          const planPath = await saveFixPlan(
+            createFixPlan(plannedFixes, Boolean(options.dryRun)),
+            options.planOutput,
+          );
+          console.log(chalk.green(`\nFix plan saved to: ${planPath}`));
         }
       }
     } catch (error) {
@@ -292,4 +697,30 @@ program
     }
   });
 
+program
+  .command('undo [session-id]')
+  .description('Revert the fixes of a session, the latest one by default')
+  .option('--journal-dir <path>', 'Where applied fixes are recorded', DEFAULT_JOURNAL_DIR)
+  .action(async (sessionId: string | undefined, options) => {
+    try {
+      const session = await undoSession(options.journalDir, sessionId);
+      console.log(
+        chalk.green(`\n✓ Undid ${session.entries.length} fixes of session ${session.id}:`),
+      );
+      for (const entry of [...session.entries].reverse()) {
+        console.log(
+          entry.action === 'create'
+            ? chalk.gray(`  Removed: ${entry.to}`)
+            : chalk.gray(`  Restored: ${entry.to} → ${entry.from}`),
+        );
+      }
+    } catch (error) {
+      console.error(
+        chalk.red('\nError:'),
+        error instanceof Error ? error.message : 'An unknown error occurred',
+      );
+      process.exit(1);
+    }
+  });
+
 program.parse();
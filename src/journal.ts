@@ -0,0 +1,191 @@
+import { createHash, randomBytes } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { FixAction, PlannedFix } from './fix-plan';
+import { gitMove, isTracked } from './git';
+
+export const DEFAULT_JOURNAL_DIR = '.tfsl-journal';
+
+export type SessionStatus = 'in-progress' | 'completed' | 'rolled-back' | 'undone';
+
+export interface JournalEntry {
+  action: FixAction;
+  from: string;
+  to: string;
+  // Null for created files, which had no previous content
+  originalHash: string | null;
+  originalContent: string | null;
+  // Hash of what the fix wrote, undo refuses to touch the file when it no longer matches
+  newHash: string;
+  // Moved with git mv, undo moves it back the same way
+  movedWithGit?: boolean;
+}
+
+export interface JournalSession {
+  id: string;
+  createdAt: string;
+  status: SessionStatus;
+  entries: JournalEntry[];
+}
+
+export interface UndoConflict {
+  filePath: string;
+  reason: string;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+export function createSession(): JournalSession {
+  const createdAt = new Date().toISOString();
+  return {
+    // Sortable by time, the random part keeps parallel runs apart
+    id: `${createdAt.replaceAll(/[-:]/g, '').replace(/\..*/, '')}-${randomBytes(3).toString('hex')}`,
+    createdAt,
+    status: 'in-progress',
+    entries: [],
+  };
+}
+
+export function toJournalEntry(fix: PlannedFix, movedWithGit = false): JournalEntry {
+  const isCreated = fix.action === 'create';
+  return {
+    action: fix.action,
+    from: path.resolve(fix.from),
+    to: path.resolve(fix.to),
+    originalHash: isCreated ? null : hashContent(fix.originalContent),
+    originalContent: isCreated ? null : fix.originalContent,
+    newHash: hashContent(fix.newContent),
+    ...(movedWithGit && { movedWithGit }),
+  };
+}
+
+function getSessionPath(journalDir: string, id: string): string {
+  return path.join(path.resolve(journalDir), `${id}.json`);
+}
+
+export async function saveSession(journalDir: string, session: JournalSession): Promise<string> {
+  const sessionPath = getSessionPath(journalDir, session.id);
+
+  try {
+    await fs.mkdir(path.dirname(sessionPath), { recursive: true });
+    await fs.writeFile(sessionPath, JSON.stringify(session, null, 2));
+    return sessionPath;
+  } catch (error) {
+    throw new Error(
+      `Failed to write fix journal: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
+
+export async function listSessions(journalDir: string): Promise<JournalSession[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(path.resolve(journalDir));
+  } catch {
+    return [];
+  }
+
+  const sessions: JournalSession[] = [];
+  for (const file of files.filter((f) => f.endsWith('.json'))) {
+    sessions.push(await loadSession(journalDir, path.basename(file, '.json')));
+  }
+  // Oldest first, ids of sessions started within the same second do not sort by time
+  return sessions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function loadSession(journalDir: string, id: string): Promise<JournalSession> {
+  try {
+    const content = await fs.readFile(getSessionPath(journalDir, id), 'utf-8');
+    return JSON.parse(content) as JournalSession;
+  } catch (error) {
+    throw new Error(
+      `Failed to load fix session ${id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+// Files edited or created after the fix are left alone, undo is all or nothing
+export async function findUndoConflicts(entries: JournalEntry[]): Promise<UndoConflict[]> {
+  const conflicts: UndoConflict[] = [];
+
+  for (const [index, entry] of entries.entries()) {
+    // A later fix moved this file on, that fix is checked instead
+    if (entries.slice(index + 1).some((later) => later.from === entry.to)) {
+      continue;
+    }
+
+    const current = await readIfExists(entry.to);
+    if (current === null) {
+      conflicts.push({ filePath: entry.to, reason: 'file no longer exists' });
+    } else if (hashContent(current) !== entry.newHash) {
+      conflicts.push({ filePath: entry.to, reason: 'file was changed after the fix' });
+    }
+
+    // A case-only rename restores onto the same file on case-insensitive file systems
+    const sameFile = entry.from.toLowerCase() === entry.to.toLowerCase();
+    if (entry.action !== 'create' && !sameFile && (await readIfExists(entry.from)) !== null) {
+      conflicts.push({ filePath: entry.from, reason: 'a file was created at the original path' });
+    }
+  }
+
+  return conflicts;
+}
+
+// Reverts the entries newest first, so chained fixes of the same file unwind correctly
+export async function revertEntries(entries: JournalEntry[]): Promise<void> {
+  for (const entry of [...entries].reverse()) {
+    if (entry.movedWithGit && (await isTracked(entry.to))) {
+      await fs.mkdir(path.dirname(entry.from), { recursive: true });
+      await gitMove(entry.to, entry.from);
+      await fs.writeFile(entry.from, entry.originalContent ?? '');
+    } else {
+      await fs.unlink(entry.to);
+      if (entry.originalContent !== null) {
+        await fs.mkdir(path.dirname(entry.from), { recursive: true });
+        await fs.writeFile(entry.from, entry.originalContent);
+      }
+    }
+
+    // Drop the directory the fix created, rmdir fails harmlessly when it is not empty
+    if (path.dirname(entry.to) !== path.dirname(entry.from)) {
+      await fs.rmdir(path.dirname(entry.to)).catch(() => undefined);
+    }
+  }
+}
+
+export async function undoSession(journalDir: string, id?: string): Promise<JournalSession> {
+  const sessions = await listSessions(journalDir);
+  const session = id
+    ? await loadSession(journalDir, id)
+    : sessions.reverse().find((s) => s.status === 'completed' || s.status === 'in-progress');
+
+  if (!session) {
+    throw new Error(`No fix session to undo in ${path.resolve(journalDir)}`);
+  }
+  if (session.status === 'undone' || session.status === 'rolled-back') {
+    throw new Error(`Fix session ${session.id} was already ${session.status}`);
+  }
+
+  const conflicts = await findUndoConflicts(session.entries);
+  if (conflicts.length > 0) {
+    throw new Error(
+      `Cannot undo fix session ${session.id}:\n` +
+        conflicts.map((c) => `  ${c.filePath}: ${c.reason}`).join('\n'),
+    );
+  }
+
+  await revertEntries(session.entries);
+  session.status = 'undone';
+  await saveSession(journalDir, session);
+  return session;
+}
@@ -1,12 +1,37 @@
-import { AnalysisResult, AnalysisError, AnalysisErrorType } from './types';
+import {
+  AnalysisResult,
+  AnalysisError,
+  AnalysisErrorType,
+  MissingTestExemption,
+  Severity,
+  SourceResolution,
+} from './types';
+import { countBySeverity, SeverityCounts } from './severity';
+import { BaselineOutcome } from './baseline';
+import { SuppressedFinding } from './suppressions';
 import * as path from 'node:path';
 
 interface JsonReportError {
   testName: string;
   issueType: string;
+  ruleId: string;
+  message: string;
+  severity: Severity;
+  flavour?: string;
   sourceFiles?: string;
   currentTestFile?: string;
   expectedTestFile?: string;
+  suggestions?: JsonReportSuggestion[];
+  sourceResolution?: SourceResolution;
+  // Previous path of the source, renamed among the analyzed changes
+  sourceRenamedFrom?: string;
+}
+
+interface JsonReportSuggestion {
+  sourceFile: string;
+  expectedTestFile: string;
+  reason: string;
+  similarity: number;
 }
 
 interface JsonReportSummary {
@@ -17,15 +42,57 @@ interface JsonReportSummary {
     directoryStructure: number;
     filename: number;
     missingTests: number;
+    unusedSuppressions: number;
+    classNames: number;
+    namespaces: number;
+    orphanedTests: number;
+  };
+  severityCounts: SeverityCounts;
+  suppressed?: {
+    total: number;
+    byRule: Record<string, number>;
+  };
+  missingTestExemptions?: {
+    total: number;
+    byReason: Record<string, number>;
+    files: JsonReportExemption[];
   };
 }
 
+interface JsonReportExemption {
+  sourceFile: string;
+  reason: string;
+  detail?: string;
+}
+
+interface JsonReportBaseline {
+  suppressed: number;
+  fixed: {
+    testName: string;
+    ruleId: string;
+    fingerprint: string;
+    testFile: string;
+  }[];
+}
+
 interface JsonReport {
   summary: JsonReportSummary;
   filesWithIssues: JsonReportError[];
+  baseline?: JsonReportBaseline;
 }
 
-export function generateJsonReport(results: AnalysisResult[], totalFiles: number): string {
+// Outcomes of the steps that run after the analysis, each adds its own section to the report
+export interface JsonReportDetails {
+  baseline?: BaselineOutcome;
+  suppressed?: SuppressedFinding[];
+  exemptions?: MissingTestExemption[];
+}
+
+export function generateJsonReport(
+  results: AnalysisResult[],
+  totalFiles: number,
+  details: JsonReportDetails = {},
+): string {
   const errorCounts = countErrorTypes(results);
   const filesWithIssues = createFileIssuesList(results);
   const issueRate = totalFiles > 0 ? (results.length / totalFiles) * 100 : 0;
@@ -36,22 +103,82 @@ export function generateJsonReport(results: AnalysisResult[], totalFiles: number
       totalFilesWithIssues: results.length,
       issueRate: Number.parseFloat(issueRate.toFixed(1)),
       errorCounts,
+      severityCounts: countBySeverity(results),
     },
     filesWithIssues,
   };
 
+  if (details.suppressed) {
+    report.summary.suppressed = countSuppressed(details.suppressed);
+  }
+  if (details.exemptions) {
+    report.summary.missingTestExemptions = summarizeExemptions(details.exemptions);
+  }
+  if (details.baseline) {
+    report.baseline = createBaselineSection(details.baseline);
+  }
+
   return JSON.stringify(report, null, 2);
 }
 
+function countSuppressed(suppressed: SuppressedFinding[]): {
+  total: number;
+  byRule: Record<string, number>;
+} {
+  const byRule: Record<string, number> = {};
+  for (const finding of suppressed) {
+    byRule[finding.ruleId] = (byRule[finding.ruleId] ?? 0) + 1;
+  }
+  return { total: suppressed.length, byRule };
+}
+
+function summarizeExemptions(
+  exemptions: MissingTestExemption[],
+): JsonReportSummary['missingTestExemptions'] {
+  const byReason: Record<string, number> = {};
+  for (const exemption of exemptions) {
+    byReason[exemption.reason] = (byReason[exemption.reason] ?? 0) + 1;
+  }
+  return {
+    total: exemptions.length,
+    byReason,
+    files: exemptions.map((exemption) => ({
+      sourceFile: formatToStandardPath(exemption.sourceFilePath, 'src'),
+      reason: exemption.reason,
+      ...(exemption.detail && { detail: exemption.detail }),
+    })),
+  };
+}
+
+function createBaselineSection(outcome: BaselineOutcome): JsonReportBaseline {
+  return {
+    suppressed: outcome.suppressedCount,
+    fixed: outcome.fixed.map((entry) => ({
+      testName: entry.testFile,
+      ruleId: entry.ruleId,
+      fingerprint: entry.fingerprint,
+      testFile: formatToStandardPath(entry.testFilePath, 'tests'),
+    })),
+  };
+}
+
 function countErrorTypes(results: AnalysisResult[]): {
   directoryStructure: number;
   filename: number;
   missingTests: number;
+  unusedSuppressions: number;
+  classNames: number;
+  namespaces: number;
+  orphanedTests: number;
 } {
   const counts = {
     directoryStructure: 0,
     filename: 0,
     missingTests: 0,
+    unusedSuppressions: 0,
+    classNames: 0,
+    namespaces: 0,
+    orphanedTests: 0,
   };
 
   for (const result of results) {
@@ -66,6 +193,18 @@ function countErrorTypes(results: AnalysisResult[]): {
         case AnalysisErrorType.MissingTest:
           counts.missingTests++;
           break;
+        case AnalysisErrorType.UnusedSuppression:
+          counts.unusedSuppressions++;
+          break;
+        case AnalysisErrorType.ClassNameMismatch:
+          counts.classNames++;
+          break;
+        case AnalysisErrorType.NamespaceMismatch:
+          counts.namespaces++;
+          break;
+        case AnalysisErrorType.OrphanedTest:
+          counts.orphanedTests++;
+          break;
       }
     }
   }
@@ -78,7 +217,7 @@ function createFileIssuesList(results: AnalysisResult[]): JsonReportError[] {
 
   for (const result of results) {
     for (const error of result.errors) {
-      const errorEntry = createErrorEntry(result.testFile, error);
+      const errorEntry = createErrorEntry(result.testFile, error, result.flavour);
       issues.push(errorEntry);
     }
   }
@@ -86,15 +225,28 @@ function createFileIssuesList(results: AnalysisResult[]): JsonReportError[] {
   return issues;
 }
 
-function createErrorEntry(testFile: string, error: AnalysisError): JsonReportError {
+function createErrorEntry(
+  testFile: string,
+  error: AnalysisError,
+  flavour?: string,
+): JsonReportError {
   const errorEntry: JsonReportError = {
     testName: testFile,
     issueType: error.type,
+    ruleId: error.ruleId,
+    message: error.message,
+    severity: error.severity,
+    ...(flavour && { flavour }),
+    ...(error.sourceResolution && { sourceResolution: error.sourceResolution }),
+    ...(error.sourceRenamedFrom && {
+      sourceRenamedFrom: formatToStandardPath(error.sourceRenamedFrom, 'src'),
+    }),
   };
 
   addCurrentTestFile(errorEntry, error);
   addSourceFiles(errorEntry, error);
   addExpectedTestFile(errorEntry, error);
+  addSuggestions(errorEntry, error);
 
   return errorEntry;
 }
@@ -126,6 +278,17 @@ function addExpectedTestFile(errorEntry: JsonReportError, error: AnalysisError):
   }
 }
 
+function addSuggestions(errorEntry: JsonReportError, error: AnalysisError): void {
+  if (error.suggestions && error.suggestions.length > 0) {
+    errorEntry.suggestions = error.suggestions.map((suggestion) => ({
+      sourceFile: formatToStandardPath(suggestion.sourceFilePath, 'src'),
+      expectedTestFile: formatToStandardPath(suggestion.expectedTestPath, 'tests'),
+      reason: suggestion.reason,
+      similarity: suggestion.similarity,
+    }));
+  }
+}
+
 // Helper function to format paths consistently (copied from console-reporter.ts)
 function formatToStandardPath(filePath: string, rootDir: 'src' | 'tests'): string {
   // If path already starts with ./src or ./tests, return it
@@ -0,0 +1,86 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { isTestProjectName } from './flavours';
+import { findProject, readSolution } from './projects';
+import { AnalyzerOptions } from './types';
+
+// Project directory -> <RootNamespace> of its .csproj, null when it declares none. Read once
+// per analysis run
+const rootNamespaceCache = new Map<string, string | null>();
+
+// Project files may have changed since the last run, see clearSolutionCache
+export function clearRootNamespaceCache(): void {
+  rootNamespaceCache.clear();
+}
+
+export function readRootNamespace(projectDir: string): string | null {
+  const cached = rootNamespaceCache.get(projectDir);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let rootNamespace: string | null = null;
+  try {
+    const projectFile = fs.readdirSync(projectDir).find((f) => f.endsWith('.csproj'));
+    if (projectFile) {
+      const content = fs.readFileSync(path.join(projectDir, projectFile), 'utf-8');
+      rootNamespace = /<RootNamespace>\s*([\w.]+)\s*<\/RootNamespace>/.exec(content)?.[1] ?? null;
+    }
+  } catch {
+    // No readable project file, the directory name is the root namespace
+  }
+
+  rootNamespaceCache.set(projectDir, rootNamespace);
+  return rootNamespace;
+}
+
+export interface NamespaceSettings {
+  // Test project directory name -> root namespace, wins over the .csproj
+  rootNamespaces?: Record<string, string>;
+  readRootNamespace?: boolean;
+}
+
+// The namespace a test file is expected to declare: the root namespace of its test project
+// followed by the folders below the project, e.g. Application.Tests.Services
+export function calculateExpectedNamespace(
+  testFilePath: string,
+  options: AnalyzerOptions,
+  settings: NamespaceSettings = {},
+): string | null {
+  const testRoot = path.resolve(options.testRoot);
+  const relativeDir = path.relative(testRoot, path.dirname(path.resolve(testFilePath)));
+  const testProject =
+    options.solution && findProject(readSolution(options.solution, options), testFilePath, true);
+  let segments: string[];
+  let projectDir: string;
+
+  if (testProject) {
+    // Nested projects: the project name, then the folders below the project directory
+    const projectRelativeDir = path.relative(
+      testProject.dir,
+      path.dirname(path.resolve(testFilePath)),
+    );
+    segments = [testProject.name, ...projectRelativeDir.split(/[/\\]/).filter(Boolean)];
+    projectDir = testProject.dir;
+  } else if (relativeDir && !relativeDir.startsWith('..') && !path.isAbsolute(relativeDir)) {
+    segments = relativeDir.split(/[/\\]/);
+    projectDir = path.join(testRoot, segments[0]);
+  } else {
+    // Outside of the test root, fall back to the nearest directory named like a test project
+    const parts = path.dirname(path.resolve(testFilePath)).split(path.sep);
+    const projectIndex = parts.findIndex((p) => isTestProjectName(p, options));
+    if (projectIndex < 0) {
+      return null;
+    }
+    segments = parts.slice(projectIndex);
+    projectDir = parts.slice(0, projectIndex + 1).join(path.sep);
+  }
+
+  const projectName = segments[0];
+  const rootNamespace =
+    settings.rootNamespaces?.[projectName] ??
+    ((settings.readRootNamespace ?? true) ? readRootNamespace(projectDir) : null) ??
+    projectName;
+
+  return [rootNamespace, ...segments.slice(1)].join('.');
+}
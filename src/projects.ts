@@ -0,0 +1,137 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  getTestProjectFlavours,
+  isTestProjectName,
+  toSourceProjectName,
+  toTestProjectName,
+} from './flavours';
+import { AnalyzerOptions } from './types';
+
+export interface ProjectInfo {
+  name: string;
+  // Absolute path of the .csproj
+  file: string;
+  dir: string;
+  // Absolute paths of the referenced .csproj files
+  references: string[];
+  isTest: boolean;
+}
+
+export interface SolutionLayout {
+  solutionPath: string;
+  projects: ProjectInfo[];
+}
+
+// Solution path and test project naming -> projects, read once per analysis run
+const solutionCache = new Map<string, SolutionLayout>();
+
+// Project("{FAE04EC0-...}") = "Billing.Api", "src\Modules\Billing\Billing.Api\Billing.Api.csproj", "{...}"
+const SLN_PROJECT_REGEX = /^Project\("\{[^}]+\}"\)\s*=\s*"[^"]*",\s*"([^"]+\.csproj)"/gm;
+// <Project Path="src/Modules/Billing/Billing.Api/Billing.Api.csproj" /> in .slnx solutions
+const SLNX_PROJECT_REGEX = /<Project\s+Path="([^"]+\.csproj)"/g;
+const PROJECT_REFERENCE_REGEX = /<ProjectReference\s+Include="([^"]+)"/g;
+
+// Project files use Windows separators regardless of the platform
+function toPlatformPath(projectPath: string): string {
+  return projectPath.replaceAll(/[/\\]/g, path.sep);
+}
+
+function isTestProject(name: string, content: string, options: AnalyzerOptions): boolean {
+  return (
+    isTestProjectName(name, options) ||
+    /<IsTestProject>\s*true\s*<\/IsTestProject>/i.test(content) ||
+    /<PackageReference\s+Include="Microsoft\.NET\.Test\.Sdk"/i.test(content)
+  );
+}
+
+function readProject(projectFile: string, options: AnalyzerOptions): ProjectInfo {
+  const name = path.basename(projectFile, '.csproj');
+  const dir = path.dirname(projectFile);
+  let content: string;
+  try {
+    content = fs.readFileSync(projectFile, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Failed to read project ${projectFile}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const references = [...content.matchAll(PROJECT_REFERENCE_REGEX)].map((match) =>
+    path.resolve(dir, toPlatformPath(match[1])),
+  );
+  return {
+    name,
+    file: projectFile,
+    dir,
+    references,
+    isTest: isTestProject(name, content, options),
+  };
+}
+
+// Solutions and projects may have changed since the last run, a library caller or a watch
+// analyzes again in the same process
+export function clearSolutionCache(): void {
+  solutionCache.clear();
+}
+
+export function isProjectFile(filePath: string): boolean {
+  return /\.(sln|slnx|csproj)$/i.test(filePath);
+}
+
+export function readSolution(solutionPath: string, options: AnalyzerOptions): SolutionLayout {
+  const resolvedPath = path.resolve(solutionPath);
+  const naming = getTestProjectFlavours(options).map(({ prefix, suffix }) => [prefix, suffix]);
+  const cacheKey = JSON.stringify([resolvedPath, naming, options.testProjectNames]);
+  const cached = solutionCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(resolvedPath, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Failed to read solution ${resolvedPath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const regex = resolvedPath.endsWith('.slnx') ? SLNX_PROJECT_REGEX : SLN_PROJECT_REGEX;
+  const solutionDir = path.dirname(resolvedPath);
+  const projects = [...content.matchAll(regex)].map((match) =>
+    readProject(path.resolve(solutionDir, toPlatformPath(match[1])), options),
+  );
+
+  const layout: SolutionLayout = { solutionPath: resolvedPath, projects };
+  solutionCache.set(cacheKey, layout);
+  return layout;
+}
+
+// The innermost project whose directory contains the file, projects may be nested
+export function findProject(
+  layout: SolutionLayout,
+  filePath: string,
+  isTest: boolean,
+): ProjectInfo | undefined {
+  const resolvedPath = path.resolve(filePath);
+  return layout.projects
+    .filter((project) => project.isTest === isTest)
+    .filter((project) => resolvedPath.startsWith(project.dir + path.sep))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+}
+
+// Test projects referencing the source project, the one named after it first, then the others
+// following the naming of the options
+export function findTestProjects(
+  layout: SolutionLayout,
+  sourceProject: ProjectInfo,
+  options: AnalyzerOptions,
+): ProjectInfo[] {
+  const rank = (project: ProjectInfo) =>
+    (project.name === toTestProjectName(sourceProject.name, options) ? 2 : 0) +
+    (toSourceProjectName(project.name, options) === null ? 0 : 1);
+  return layout.projects
+    .filter((project) => project.isTest && project.references.includes(sourceProject.file))
+    .sort((a, b) => rank(b) - rank(a));
+}
@@ -5,6 +5,8 @@ import { AnalysisResult } from './types';
 export interface ReportOptions {
   outputDir: string;
   projectName: string;
+  // Write to this exact file name instead of a timestamped one
+  fileName?: string;
 }
 
 export async function saveReport(
@@ -12,7 +14,7 @@ export async function saveReport(
   options: ReportOptions,
 ): Promise<string> {
   const timestamp = new Date().toISOString().replaceAll(/[:.]/g, '-');
-  const fileName = `${options.projectName}-analysis-${timestamp}.json`;
+  const fileName = options.fileName ?? `${options.projectName}-analysis-${timestamp}.json`;
   const outputPath = path.join(options.outputDir, fileName);
 
   try {
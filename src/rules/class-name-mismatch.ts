@@ -0,0 +1,45 @@
+import * as path from 'node:path';
+import { AnalysisErrorType } from '../types';
+import { Rule } from './rule';
+
+type ClassNameMismatchOptions = Record<string, unknown>;
+
+export const classNameMismatchRule: Rule<ClassNameMismatchOptions> = {
+  id: 'class-name-mismatch',
+  errorType: AnalysisErrorType.ClassNameMismatch,
+  description: 'Test class declared in the file is not named like the file',
+  enabledBy: 'validateFileName',
+  defaultSeverity: 'error',
+  defaultOptions: {},
+  checkTestFile(context) {
+    const { testFile, sourcePath, isSplitTest } = context;
+    const fileName = path.basename(testFile, path.extname(testFile));
+    // Nested classes are helpers of the test class, only top-level ones can match the file
+    const classes = context.readFacts().classes.filter((c) => !c.isNested);
+    if (classes.length === 0) {
+      return [];
+    }
+
+    // Parts of a partial class may live in files such as UserServiceTests.Setup.cs
+    // and split tests such as OrderService.CancelTests.cs declare OrderServiceCancelTests
+    const matchesFile = (c: { name: string; isPartial: boolean }) =>
+      c.name === fileName ||
+      (c.isPartial && fileName.startsWith(`${c.name}.`)) ||
+      (isSplitTest && c.name === fileName.replaceAll('.', ''));
+    if (classes.some(matchesFile)) {
+      return [];
+    }
+
+    const primary = classes[0];
+    return [
+      {
+        type: AnalysisErrorType.ClassNameMismatch,
+        ruleId: 'class-name-mismatch',
+        message: `Test class name does not match the file name. Found: ${primary.name} (line ${primary.line}), expected: ${fileName}`,
+        sourceFilePath: sourcePath,
+        actualTestPath: testFile,
+        className: primary.name,
+      },
+    ];
+  },
+};
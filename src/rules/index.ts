@@ -0,0 +1,101 @@
+import {
+  AnalysisError,
+  AnalysisResult,
+  AnalyzerOptions,
+  RuleId,
+  RuleSeverity,
+  Severity,
+} from '../types';
+import { invalidDirectoryStructureRule } from './invalid-directory-structure';
+import { invalidFileNameRule } from './invalid-file-name';
+import { classNameMismatchRule } from './class-name-mismatch';
+import { namespaceMismatchRule } from './namespace-mismatch';
+import { missingTestRule } from './missing-test';
+import { orphanedTestRule } from './orphaned-test';
+import { unusedSuppressionRule } from './unused-suppression';
+import { ProjectContext, Rule, RuleFinding, RuleOptions, TestFileContext } from './rule';
+
+export * from './rule';
+
+// One rule per AnalysisErrorType, the order here is the order findings are reported in
+export const RULES: readonly Rule[] = [
+  invalidFileNameRule as Rule,
+  invalidDirectoryStructureRule as Rule,
+  missingTestRule as Rule,
+  unusedSuppressionRule as Rule,
+  classNameMismatchRule as Rule,
+  namespaceMismatchRule as Rule,
+  orphanedTestRule as Rule,
+];
+
+export function findRule(id: string): Rule | undefined {
+  return RULES.find((rule) => rule.id === id);
+}
+
+export function getRuleSeverity(rule: Rule, options: AnalyzerOptions): RuleSeverity {
+  return options.rules[rule.id]?.severity ?? rule.defaultSeverity;
+}
+
+export function isRuleEnabled(rule: Rule, options: AnalyzerOptions): boolean {
+  if (getRuleSeverity(rule, options) === 'off') {
+    return false;
+  }
+  return options.rules[rule.id]?.enabled ?? (rule.enabledBy ? options[rule.enabledBy] : true);
+}
+
+export function getEnabledRules(options: AnalyzerOptions): Rule[] {
+  return RULES.filter((rule) => isRuleEnabled(rule, options));
+}
+
+export function getRuleOptions(rule: Rule, options: AnalyzerOptions): RuleOptions {
+  return { ...rule.defaultOptions, ...options.rules[rule.id]?.options };
+}
+
+export function isRuleId(id: string): id is RuleId {
+  return findRule(id) !== undefined;
+}
+
+function withSeverity(findings: RuleFinding[], severity: Severity): AnalysisError[] {
+  return findings.map((finding) => ({ ...finding, severity }));
+}
+
+// Callers only run enabled rules, so the severity is never 'off' here
+function getActiveSeverity(rule: Rule, options: AnalyzerOptions): Severity {
+  return getRuleSeverity(rule, options) as Severity;
+}
+
+// For findings the analyzer produces itself on behalf of a rule
+export function toAnalysisErrors(
+  rule: Rule,
+  findings: RuleFinding[],
+  options: AnalyzerOptions,
+): AnalysisError[] {
+  return withSeverity(findings, getActiveSeverity(rule, options));
+}
+
+export function runTestFileRule(
+  rule: Rule,
+  context: TestFileContext,
+  options: AnalyzerOptions,
+): AnalysisError[] {
+  if (!rule.checkTestFile) {
+    return [];
+  }
+  const findings = rule.checkTestFile(context, getRuleOptions(rule, options));
+  return withSeverity(findings, getActiveSeverity(rule, options));
+}
+
+export function runProjectRule(
+  rule: Rule,
+  context: ProjectContext,
+  options: AnalyzerOptions,
+): AnalysisResult[] {
+  if (!rule.checkProject) {
+    return [];
+  }
+  const severity = getActiveSeverity(rule, options);
+  return rule.checkProject(context, getRuleOptions(rule, options)).map((finding) => ({
+    ...finding,
+    errors: withSeverity(finding.errors, severity),
+  }));
+}
@@ -0,0 +1,76 @@
+import * as path from 'node:path';
+import { AnalysisErrorType } from '../types';
+import { Rule } from './rule';
+
+interface InvalidDirectoryStructureOptions extends Record<string, unknown> {
+  // Also report tests whose source file cannot be told apart from others, tests without any
+  // source file are reported by orphaned-test
+  reportUnmatched: boolean;
+  // Accept tests in a parent of the expected folder within the test project, e.g. integration
+  // tests kept directly in the project directory
+  allowFlatLayout: boolean;
+}
+
+export const invalidDirectoryStructureRule: Rule<InvalidDirectoryStructureOptions> = {
+  id: 'invalid-directory-structure',
+  errorType: AnalysisErrorType.InvalidDirectoryStructure,
+  description: 'Test file is not in the directory mirroring its source file',
+  enabledBy: 'validateDirectoryStructure',
+  defaultSeverity: 'error',
+  defaultOptions: {
+    reportUnmatched: true,
+    allowFlatLayout: false,
+  },
+  checkTestFile(context, ruleOptions) {
+    const { testFile, candidates, sourcePath, sourceResolution, expectedTestPath } = context;
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    if (!sourcePath || !expectedTestPath) {
+      return ruleOptions.reportUnmatched
+        ? [
+            {
+              type: AnalysisErrorType.InvalidDirectoryStructure,
+              ruleId: 'invalid-directory-structure',
+              message: `Multiple matching source files found (${candidates.length}). Unable to determine correct source file`,
+              sourceFilePath: candidates.join(', '),
+              actualTestPath: testFile,
+            },
+          ]
+        : [];
+    }
+
+    if (
+      testFile === expectedTestPath ||
+      path.normalize(path.dirname(testFile)) === path.normalize(path.dirname(expectedTestPath))
+    ) {
+      return [];
+    }
+
+    const relativeToExpected = path.relative(
+      path.dirname(testFile),
+      path.dirname(expectedTestPath),
+    );
+    if (
+      ruleOptions.allowFlatLayout &&
+      !relativeToExpected.startsWith('..') &&
+      !path.isAbsolute(relativeToExpected)
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        type: AnalysisErrorType.InvalidDirectoryStructure,
+        ruleId: 'invalid-directory-structure',
+        message: 'Test file is in wrong directory',
+        sourceFilePath: sourcePath,
+        actualTestPath: testFile,
+        expectedTestPath: expectedTestPath,
+        ...(sourceResolution && { sourceResolution }),
+      },
+    ];
+  },
+};
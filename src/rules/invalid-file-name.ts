@@ -0,0 +1,49 @@
+import * as path from 'node:path';
+import { AnalysisErrorType } from '../types';
+import { Rule } from './rule';
+
+interface InvalidFileNameOptions extends Record<string, unknown> {
+  // Do not report names that only differ from the expected one in casing
+  ignoreCase: boolean;
+}
+
+export const invalidFileNameRule: Rule<InvalidFileNameOptions> = {
+  id: 'invalid-file-name',
+  errorType: AnalysisErrorType.InvalidFileName,
+  description: 'Test file is in the right directory but its name does not match the source file',
+  enabledBy: 'validateFileName',
+  defaultSeverity: 'error',
+  defaultOptions: {
+    ignoreCase: false,
+  },
+  checkTestFile(context, ruleOptions) {
+    const { testFile, sourcePath, sourceResolution, expectedTestPath } = context;
+    if (!sourcePath || !expectedTestPath || testFile === expectedTestPath) {
+      return [];
+    }
+
+    if (path.normalize(path.dirname(testFile)) !== path.normalize(path.dirname(expectedTestPath))) {
+      return [];
+    }
+
+    const expectedFileName = path.basename(expectedTestPath);
+    if (
+      ruleOptions.ignoreCase &&
+      path.basename(testFile).toLowerCase() === expectedFileName.toLowerCase()
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        type: AnalysisErrorType.InvalidFileName,
+        ruleId: 'invalid-file-name',
+        message: `Test file has incorrect name. Expected: ${expectedFileName}`,
+        sourceFilePath: sourcePath,
+        actualTestPath: testFile,
+        expectedTestPath: expectedTestPath,
+        ...(sourceResolution && { sourceResolution }),
+      },
+    ];
+  },
+};
@@ -0,0 +1,75 @@
+import * as path from 'node:path';
+import { AnalysisErrorType } from '../types';
+import { ExemptionSettings, findExemption } from '../exemptions';
+import { findSplitTestSource } from '../split-tests';
+import { Rule, RuleProjectFinding } from './rule';
+
+interface MissingTestOptions extends ExemptionSettings, Record<string, unknown> {}
+
+export const missingTestRule: Rule<MissingTestOptions> = {
+  id: 'missing-test',
+  errorType: AnalysisErrorType.MissingTest,
+  description: 'Source file has no test file',
+  enabledBy: 'validateMissingTests',
+  defaultSeverity: 'error',
+  defaultOptions: {
+    exemptTypeKinds: ['interface', 'enum', 'record'],
+    exemptExcludedFromCoverage: true,
+    exemptAutoGenerated: true,
+    exemptPaths: [],
+  },
+  checkProject(context, ruleOptions) {
+    const { options, sourceFiles, testFiles } = context;
+    const results: RuleProjectFinding[] = [];
+    const testFileMap = new Map<string, string>();
+    const sourceNames = new Set(sourceFiles.map((file) => path.basename(file, path.extname(file))));
+
+    // Create a map of test base names (without suffix) to their full paths, any split test
+    // file of a source counts as its test
+    for (const testFile of testFiles) {
+      const testBaseName = path.basename(testFile, path.extname(testFile));
+      const baseName = testBaseName.replace(new RegExp(`${options.testFileSuffix}$`), '');
+      const sourceName = sourceNames.has(baseName)
+        ? baseName
+        : (findSplitTestSource(testBaseName, options.splitTestPatterns, (name) =>
+            sourceNames.has(name),
+          ) ?? baseName);
+      testFileMap.set(sourceName, testFile);
+    }
+
+    for (const sourceFile of sourceFiles) {
+      const sourceBaseName = path.basename(sourceFile, path.extname(sourceFile));
+      const expectedTestFile = testFileMap.get(sourceBaseName);
+
+      if (!expectedTestFile) {
+        const exemption = findExemption(
+          sourceFile,
+          options.srcRoot,
+          ruleOptions,
+          context.readFacts(sourceFile),
+        );
+        if (exemption) {
+          context.recordExemption(exemption);
+          continue;
+        }
+
+        const expectedTestPath = context.calculateExpectedTestPath(sourceFile);
+
+        results.push({
+          testFile: path.basename(expectedTestPath),
+          testFilePath: path.resolve(expectedTestPath),
+          errors: [
+            {
+              type: AnalysisErrorType.MissingTest,
+              ruleId: 'missing-test',
+              message: `Missing test file for source file: ${path.resolve(sourceFile)}`,
+              sourceFilePath: path.resolve(sourceFile),
+            },
+          ],
+        });
+      }
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,41 @@
+import { AnalysisErrorType } from '../types';
+import { calculateExpectedNamespace } from '../namespaces';
+import { Rule } from './rule';
+
+interface NamespaceMismatchOptions extends Record<string, unknown> {
+  // Read <RootNamespace> from the .csproj of the test project
+  readRootNamespace: boolean;
+  // Test project directory name -> root namespace, wins over the .csproj
+  rootNamespaces: Record<string, string>;
+}
+
+export const namespaceMismatchRule: Rule<NamespaceMismatchOptions> = {
+  id: 'namespace-mismatch',
+  errorType: AnalysisErrorType.NamespaceMismatch,
+  description: 'Namespace declared in the test file does not match its folder',
+  enabledBy: 'validateDirectoryStructure',
+  defaultSeverity: 'error',
+  defaultOptions: {
+    readRootNamespace: true,
+    rootNamespaces: {},
+  },
+  checkTestFile(context, ruleOptions) {
+    const { testFile, options, sourcePath } = context;
+    // Files in the global namespace have nothing to compare
+    const declared = context.readFacts().namespace;
+    const expected = calculateExpectedNamespace(testFile, options, ruleOptions);
+    if (!declared || !expected || declared === expected) {
+      return [];
+    }
+
+    return [
+      {
+        type: AnalysisErrorType.NamespaceMismatch,
+        ruleId: 'namespace-mismatch',
+        message: `Namespace does not match the folder. Found: ${declared}, expected: ${expected}`,
+        sourceFilePath: sourcePath,
+        actualTestPath: testFile,
+      },
+    ];
+  },
+};
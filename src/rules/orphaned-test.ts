@@ -0,0 +1,87 @@
+import * as path from 'node:path';
+import { AnalysisErrorType, RepairSuggestion } from '../types';
+import { nameSimilarity } from '../similarity';
+import { Rule, TestFileContext } from './rule';
+
+interface OrphanedTestOptions extends Record<string, unknown> {
+  maxSuggestions: number;
+  // Source names at least this similar to the name the test points at are suggested
+  minSimilarity: number;
+  // Suggest the new name of sources renamed in the git history
+  useGitHistory: boolean;
+}
+
+function baseName(filePath: string): string {
+  return path.basename(filePath, path.extname(filePath));
+}
+
+function findSuggestions(
+  context: TestFileContext,
+  ruleOptions: OrphanedTestOptions,
+): RepairSuggestion[] {
+  const { sourceFileName, sourceFiles, sourceRenames } = context;
+  const existingSources = new Set(sourceFiles);
+  const suggestions: RepairSuggestion[] = [];
+
+  if (ruleOptions.useGitHistory) {
+    for (const [oldPath, newPath] of sourceRenames) {
+      if (
+        baseName(oldPath).toLowerCase() === sourceFileName.toLowerCase() &&
+        existingSources.has(newPath)
+      ) {
+        suggestions.push({
+          sourceFilePath: newPath,
+          expectedTestPath: context.calculateExpectedTestPath(newPath),
+          reason: 'git-rename',
+          similarity: 1,
+        });
+      }
+    }
+  }
+
+  const similar = sourceFiles
+    .filter((file) => !suggestions.some((s) => s.sourceFilePath === file))
+    .map((file) => ({ file, similarity: nameSimilarity(sourceFileName, baseName(file)) }))
+    .filter(({ similarity }) => similarity >= ruleOptions.minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity);
+  for (const { file, similarity } of similar) {
+    suggestions.push({
+      sourceFilePath: file,
+      expectedTestPath: context.calculateExpectedTestPath(file),
+      reason: 'similar-name',
+      similarity: Number(similarity.toFixed(2)),
+    });
+  }
+
+  return suggestions.slice(0, ruleOptions.maxSuggestions);
+}
+
+export const orphanedTestRule: Rule<OrphanedTestOptions> = {
+  id: 'orphaned-test',
+  errorType: AnalysisErrorType.OrphanedTest,
+  description: 'Test file whose source file does not exist',
+  enabledBy: 'validateDirectoryStructure',
+  defaultSeverity: 'error',
+  defaultOptions: {
+    maxSuggestions: 3,
+    minSimilarity: 0.7,
+    useGitHistory: true,
+  },
+  checkTestFile(context, ruleOptions) {
+    const { testFile, options, sourceFileName, candidates } = context;
+    if (candidates.length > 0) {
+      return [];
+    }
+
+    const suggestions = findSuggestions(context, ruleOptions);
+    return [
+      {
+        type: AnalysisErrorType.OrphanedTest,
+        ruleId: 'orphaned-test',
+        message: `Source file not found: ${sourceFileName}${options.fileExtension}`,
+        actualTestPath: testFile,
+        ...(suggestions.length > 0 && { suggestions }),
+      },
+    ];
+  },
+};
@@ -0,0 +1,74 @@
+import {
+  AnalysisError,
+  AnalysisErrorType,
+  AnalysisResult,
+  AnalyzerOptions,
+  RuleId,
+  MissingTestExemption,
+  Severity,
+  SourceResolution,
+} from '../types';
+import { FileFacts } from '../analysis-cache';
+
+export type RuleOptions = Record<string, unknown>;
+
+// Severity is not the rule's business, the analyzer stamps the configured one onto each finding
+export type RuleFinding = Omit<AnalysisError, 'severity'>;
+
+export interface RuleProjectFinding extends Omit<AnalysisResult, 'errors'> {
+  errors: RuleFinding[];
+}
+
+// AnalyzerOptions fields that switch a group of rules on or off
+export type RuleToggle = 'validateFileName' | 'validateDirectoryStructure' | 'validateMissingTests';
+
+export interface TestFileContext {
+  testFile: string;
+  options: AnalyzerOptions;
+  // Source file name the test points at, i.e. the test name without the test suffix
+  sourceFileName: string;
+  // Every source file with that name
+  candidates: string[];
+  // The test is one of several test files of its source, named by a split test pattern
+  isSplitTest: boolean;
+  // The candidate the test belongs to, when it could be determined
+  sourcePath?: string;
+  // How sourcePath was picked by the test's content, unset when it is the only candidate or
+  // the test sits in its folder
+  sourceResolution?: SourceResolution;
+  expectedTestPath?: string;
+  // Content of the test file, read on first use
+  readContent(): string;
+  // What the test file declares, from the cache when the file did not change
+  readFacts(): FileFacts;
+  // Every source file of the analysis
+  sourceFiles: string[];
+  // Source files renamed in the git history, old path -> current path
+  sourceRenames: Map<string, string>;
+  calculateExpectedTestPath(sourceFilePath: string): string;
+}
+
+export interface ProjectContext {
+  options: AnalyzerOptions;
+  sourceFiles: string[];
+  testFiles: string[];
+  calculateExpectedTestPath(sourceFilePath: string): string;
+  // What a file of the analysis declares, null when it cannot be read
+  readFacts(filePath: string): FileFacts | null;
+  // Records a source file a rule deliberately skips, reported for auditing
+  recordExemption(exemption: MissingTestExemption): void;
+}
+
+export interface Rule<TOptions extends RuleOptions = RuleOptions> {
+  id: RuleId;
+  errorType: AnalysisErrorType;
+  description: string;
+  // Rules without a toggle are on unless turned off in `rules`
+  enabledBy?: RuleToggle;
+  defaultSeverity: Severity;
+  defaultOptions: TOptions;
+  // Runs once per test file
+  checkTestFile?(context: TestFileContext, ruleOptions: TOptions): RuleFinding[];
+  // Runs once per analysis, for findings that are not tied to an existing test file
+  checkProject?(context: ProjectContext, ruleOptions: TOptions): RuleProjectFinding[];
+}
@@ -0,0 +1,11 @@
+import { AnalysisErrorType } from '../types';
+import { Rule } from './rule';
+
+// Findings come from the analyzer once suppression comments have been applied, see suppressions.ts
+export const unusedSuppressionRule: Rule = {
+  id: 'unused-suppression',
+  errorType: AnalysisErrorType.UnusedSuppression,
+  description: 'Suppression comment that did not suppress any finding',
+  defaultSeverity: 'warning',
+  defaultOptions: {},
+};
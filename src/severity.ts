@@ -0,0 +1,44 @@
+import { AnalysisResult, RuleSeverity, Severity } from './types';
+
+export const RULE_SEVERITIES: readonly RuleSeverity[] = ['error', 'warning', 'info', 'off'];
+
+export interface SeverityCounts {
+  error: number;
+  warning: number;
+  info: number;
+}
+
+export function isRuleSeverity(value: unknown): value is RuleSeverity {
+  return typeof value === 'string' && (RULE_SEVERITIES as readonly string[]).includes(value);
+}
+
+export function countBySeverity(results: AnalysisResult[]): SeverityCounts {
+  const counts: SeverityCounts = { error: 0, warning: 0, info: 0 };
+
+  for (const result of results) {
+    for (const error of result.errors) {
+      counts[error.severity]++;
+    }
+  }
+
+  return counts;
+}
+
+// The most severe level among a result's errors, used to pick how the whole file is shown
+export function getHighestSeverity(result: AnalysisResult): Severity | undefined {
+  const levels = result.errors.map((error) => error.severity);
+  return (['error', 'warning', 'info'] as const).find((level) => levels.includes(level));
+}
+
+// Errors always fail the run, warnings only once there are more than maxWarnings of them
+export function getExitCode(results: AnalysisResult[], maxWarnings: number): number {
+  const counts = countBySeverity(results);
+
+  if (counts.error > 0) {
+    return 1;
+  }
+  if (maxWarnings >= 0 && counts.warning > maxWarnings) {
+    return 1;
+  }
+  return 0;
+}
@@ -0,0 +1,90 @@
+import { escapeRegExp, extractNamespace, findUsings, stripCommentsAndStrings } from './csharp';
+import { SourceResolution } from './types';
+
+export interface ResolvedSource extends SourceResolution {
+  sourcePath: string;
+}
+
+// Follows the compiler's name lookup: a qualified name binds directly, then the enclosing
+// namespaces from the innermost outwards, then the using directives
+const REASON_RANKS: Record<SourceResolution['reason'], number> = {
+  'qualified-name': 3,
+  'enclosing-namespace': 2,
+  using: 1,
+  'mirrored-namespace': 0,
+};
+
+interface Evidence extends ResolvedSource {
+  // Tells enclosing namespaces apart, the longer one is the inner one
+  specificity: number;
+}
+
+function compareEvidence(a: Evidence, b: Evidence): number {
+  return (
+    Number(b.confidence === 'high') - Number(a.confidence === 'high') ||
+    REASON_RANKS[b.reason] - REASON_RANKS[a.reason] ||
+    b.specificity - a.specificity
+  );
+}
+
+// Picks the source file among candidates of the same name the test refers to, judged by the
+// test's usings, namespace and type references. Null when nothing or several candidates fit
+// equally well. readNamespace gives the namespace a candidate declares, expectedTestNamespace
+// the one a test of the candidate would declare in its expected folder
+export function resolveSourceFromContent(
+  testContent: string,
+  candidates: string[],
+  typeName: string,
+  readNamespace: (sourceFile: string) => string | null,
+  expectedTestNamespace: (sourceFile: string) => string | null,
+): ResolvedSource | null {
+  const code = stripCommentsAndStrings(testContent);
+  const testNamespace = extractNamespace(testContent);
+  const usings = findUsings(testContent);
+  const referencesType = new RegExp(String.raw`\b${escapeRegExp(typeName)}\b`).test(code);
+
+  const evidence: Evidence[] = [];
+  for (const sourcePath of candidates) {
+    // Candidates in the global namespace or unreadable ones cannot be picked by namespace
+    const namespace = readNamespace(sourcePath);
+    if (!namespace) {
+      continue;
+    }
+
+    const fullName = `${namespace}.${typeName}`;
+    const namesType =
+      usings.some(({ target, alias, isStatic }) => (alias || isStatic) && target === fullName) ||
+      new RegExp(String.raw`\b${escapeRegExp(fullName)}\b`).test(code);
+    const isEnclosing =
+      testNamespace === namespace || (testNamespace?.startsWith(`${namespace}.`) ?? false);
+    const isImported = usings.some(
+      ({ target, alias, isStatic }) => !alias && !isStatic && target === namespace,
+    );
+
+    let resolution: SourceResolution | null = null;
+    if (namesType) {
+      resolution = { confidence: 'high', reason: 'qualified-name' };
+    } else if (isEnclosing && referencesType) {
+      resolution = { confidence: 'high', reason: 'enclosing-namespace' };
+    } else if (isImported && referencesType) {
+      resolution = { confidence: 'high', reason: 'using' };
+    } else if (testNamespace && testNamespace === expectedTestNamespace(sourcePath)) {
+      // Moved without updating the namespace, a hint but no proof
+      resolution = { confidence: 'medium', reason: 'mirrored-namespace' };
+    } else if (isImported) {
+      resolution = { confidence: 'medium', reason: 'using' };
+    }
+
+    if (resolution) {
+      const specificity = resolution.reason === 'enclosing-namespace' ? namespace.length : 0;
+      evidence.push({ ...resolution, sourcePath, specificity });
+    }
+  }
+
+  evidence.sort(compareEvidence);
+  const [best, runnerUp] = evidence;
+  if (!best || (runnerUp && compareEvidence(best, runnerUp) === 0)) {
+    return null;
+  }
+  return { sourcePath: best.sourcePath, confidence: best.confidence, reason: best.reason };
+}
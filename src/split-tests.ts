@@ -0,0 +1,59 @@
+import { escapeRegExp } from './csharp';
+
+// Split test files cover one source class across several files, e.g. OrderServiceTests.cs,
+// OrderService.CancelTests.cs and OrderServiceRefundTests.cs, named by patterns such as
+// {Source}.{Topic}Tests
+
+const SOURCE_PLACEHOLDER = '{Source}';
+const TOPIC_PLACEHOLDER = '{Topic}';
+
+// A pattern names the source and the topic exactly once
+export function isSplitTestPattern(pattern: string): boolean {
+  return (
+    pattern.split(SOURCE_PLACEHOLDER).length === 2 && pattern.split(TOPIC_PLACEHOLDER).length === 2
+  );
+}
+
+function matchesPattern(testBaseName: string, pattern: string, sourceName: string): boolean {
+  const regex = pattern
+    .split(/(\{Source\}|\{Topic\})/)
+    .map((part) => {
+      if (part === SOURCE_PLACEHOLDER) {
+        return escapeRegExp(sourceName);
+      }
+      return part === TOPIC_PLACEHOLDER ? '.+' : escapeRegExp(part);
+    })
+    .join('');
+  return new RegExp(`^${regex}$`).test(testBaseName);
+}
+
+// The source a split test file belongs to, its name without the extension. Only names of
+// existing sources, as told by isSourceName, count and the longest one wins, so
+// OrderServiceRefundTests goes to OrderServiceRefund when there is one. Null when no pattern
+// matches
+export function findSplitTestSource(
+  testBaseName: string,
+  patterns: string[],
+  isSourceName: (name: string) => boolean,
+): string | null {
+  if (patterns.length === 0) {
+    return null;
+  }
+
+  let best: string | null = null;
+  for (let start = 0; start < testBaseName.length; start++) {
+    for (let end = testBaseName.length; end > start; end--) {
+      const sourceName = testBaseName.slice(start, end);
+      if (best && sourceName.length <= best.length) {
+        break;
+      }
+      if (
+        isSourceName(sourceName) &&
+        patterns.some((pattern) => matchesPattern(testBaseName, pattern, sourceName))
+      ) {
+        best = sourceName;
+      }
+    }
+  }
+  return best;
+}
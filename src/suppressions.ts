@@ -0,0 +1,180 @@
+import * as path from 'node:path';
+import { AnalysisError, AnalysisErrorType, AnalysisResult, RuleId } from './types';
+import { isRuleId, RuleFinding, RuleProjectFinding } from './rules';
+
+export const DISABLE_FILE_DIRECTIVE = 'tfsl-disable-file';
+export const NO_TEST_REQUIRED_DIRECTIVE = 'tfsl-no-test-required';
+
+// Rules whose findings live in test files and can be disabled there
+const TEST_FILE_RULE_FILTER = (id: RuleId) => id !== 'missing-test' && id !== 'unused-suppression';
+
+const DIRECTIVE_REGEX = /\/\/\s*(tfsl-disable-file|tfsl-no-test-required)\b([^\r\n]*)/g;
+
+export interface Suppression {
+  filePath: string;
+  directive: string;
+  line: number;
+  // Empty means every rule
+  ruleIds: RuleId[];
+  unknownRuleIds: string[];
+}
+
+export interface SuppressedFinding {
+  filePath: string;
+  ruleId: RuleId;
+  directive: string;
+}
+
+export interface SuppressionOutcome {
+  results: AnalysisResult[];
+  suppressed: SuppressedFinding[];
+  // Severity is left to the analyzer, which stamps the unused-suppression rule settings on
+  unused: RuleProjectFinding[];
+}
+
+export function parseSuppressions(content: string, filePath: string): Suppression[] {
+  const suppressions: Suppression[] = [];
+
+  for (const match of content.matchAll(DIRECTIVE_REGEX)) {
+    const directive = match[1];
+    const ids =
+      directive === DISABLE_FILE_DIRECTIVE ? match[2].split(/[\s,]+/).filter(Boolean) : [];
+    suppressions.push({
+      filePath,
+      directive,
+      line: content.slice(0, match.index).split('\n').length,
+      ruleIds: ids.filter(isRuleId),
+      unknownRuleIds: ids.filter((id) => !isRuleId(id)),
+    });
+  }
+
+  return suppressions;
+}
+
+function collectSuppressions(
+  files: string[],
+  findSuppressions: (filePath: string) => Suppression[],
+): Map<string, Suppression[]> {
+  const byFile = new Map<string, Suppression[]>();
+
+  for (const file of files) {
+    const suppressions = findSuppressions(file);
+    if (suppressions.length > 0) {
+      byFile.set(path.resolve(file), suppressions);
+    }
+  }
+
+  return byFile;
+}
+
+function covers(suppression: Suppression, error: AnalysisError): boolean {
+  if (suppression.directive === NO_TEST_REQUIRED_DIRECTIVE) {
+    return error.type === AnalysisErrorType.MissingTest;
+  }
+  return (
+    error.type !== AnalysisErrorType.MissingTest &&
+    (suppression.ruleIds.length === 0 || suppression.ruleIds.includes(error.ruleId))
+  );
+}
+
+// Missing-test findings belong to the source file, everything else to the test file
+function getSuppressionTarget(result: AnalysisResult, error: AnalysisError): string {
+  return path.resolve(
+    error.type === AnalysisErrorType.MissingTest && error.sourceFilePath
+      ? error.sourceFilePath
+      : result.testFilePath,
+  );
+}
+
+function describeUnused(suppression: Suppression, activeRuleIds: RuleId[]): string | null {
+  const directiveText = [suppression.directive, ...suppression.ruleIds].join(' ');
+  if (suppression.unknownRuleIds.length > 0) {
+    return `Suppression "${directiveText}" on line ${suppression.line} names unknown rules: ${suppression.unknownRuleIds.join(', ')}`;
+  }
+
+  // Rules that did not run cannot tell whether the suppression is still needed
+  const relevantRules =
+    suppression.directive === NO_TEST_REQUIRED_DIRECTIVE
+      ? (['missing-test'] as RuleId[])
+      : suppression.ruleIds.length > 0
+        ? suppression.ruleIds
+        : activeRuleIds.filter(TEST_FILE_RULE_FILTER);
+  if (relevantRules.length === 0 || !relevantRules.every((id) => activeRuleIds.includes(id))) {
+    return null;
+  }
+
+  return `Suppression "${directiveText}" on line ${suppression.line} did not suppress any finding`;
+}
+
+// findSuppressions gives the suppressions of a file, empty for files that cannot be read
+export function applySuppressions(
+  results: AnalysisResult[],
+  testFiles: string[],
+  sourceFiles: string[],
+  activeRuleIds: RuleId[],
+  findSuppressions: (filePath: string) => Suppression[],
+): SuppressionOutcome {
+  const testSuppressions = activeRuleIds.some(TEST_FILE_RULE_FILTER)
+    ? collectSuppressions(testFiles, findSuppressions)
+    : new Map<string, Suppression[]>();
+  // Only the no-test-required directive means anything in a source file
+  const sourceSuppressions = activeRuleIds.includes('missing-test')
+    ? collectSuppressions(sourceFiles, findSuppressions)
+    : new Map<string, Suppression[]>();
+
+  const used = new Set<Suppression>();
+  const suppressed: SuppressedFinding[] = [];
+  const remaining: AnalysisResult[] = [];
+
+  for (const result of results) {
+    const errors = result.errors.filter((error) => {
+      const target = getSuppressionTarget(result, error);
+      const candidates = [
+        ...(testSuppressions.get(target) ?? []),
+        ...(sourceSuppressions.get(target) ?? []),
+      ];
+      const suppression = candidates.find((candidate) => covers(candidate, error));
+      if (!suppression) {
+        return true;
+      }
+      used.add(suppression);
+      suppressed.push({ filePath: target, ruleId: error.ruleId, directive: suppression.directive });
+      return false;
+    });
+    if (errors.length > 0) {
+      remaining.push({ ...result, errors });
+    }
+  }
+
+  const unused: RuleProjectFinding[] = [];
+  for (const suppressions of [...testSuppressions.values(), ...sourceSuppressions.values()]) {
+    const findings: RuleFinding[] = [];
+    for (const suppression of suppressions) {
+      if (used.has(suppression)) {
+        continue;
+      }
+      const message = describeUnused(suppression, activeRuleIds);
+      if (message) {
+        const inSourceFile = suppression.directive === NO_TEST_REQUIRED_DIRECTIVE;
+        findings.push({
+          type: AnalysisErrorType.UnusedSuppression,
+          ruleId: 'unused-suppression',
+          message,
+          ...(inSourceFile
+            ? { sourceFilePath: suppression.filePath }
+            : { actualTestPath: suppression.filePath }),
+        });
+      }
+    }
+    if (findings.length > 0) {
+      const filePath = suppressions[0].filePath;
+      unused.push({
+        testFile: path.basename(filePath),
+        testFilePath: path.resolve(filePath),
+        errors: findings,
+      });
+    }
+  }
+
+  return { results: remaining, suppressed, unused };
+}
@@ -0,0 +1,91 @@
+import * as fs from 'node:fs/promises';
+
+export type TestFramework = 'xunit' | 'nunit' | 'mstest';
+
+export const TEST_FRAMEWORKS: readonly TestFramework[] = ['xunit', 'nunit', 'mstest'];
+
+export interface TemplateValues {
+  // Namespace of the test class
+  namespace: string;
+  classUnderTest: string;
+  testClassName: string;
+  sourceNamespace: string;
+  // `using` of the source namespace, empty when the source has no namespace
+  usings: string;
+}
+
+const BUILT_IN_TEMPLATES: Record<TestFramework, string> = {
+  xunit: `{{usings}}using Xunit;
+
+namespace {{namespace}};
+
+public class {{testClassName}}
+{
+    [Fact(Skip = "Not implemented yet")]
+    public void {{classUnderTest}}_Should_Work()
+    {
+    }
+}
+`,
+  nunit: `{{usings}}using NUnit.Framework;
+
+namespace {{namespace}};
+
+[TestFixture]
+public class {{testClassName}}
+{
+    [Test]
+    [Ignore("Not implemented yet")]
+    public void {{classUnderTest}}_Should_Work()
+    {
+    }
+}
+`,
+  mstest: `{{usings}}using Microsoft.VisualStudio.TestTools.UnitTesting;
+
+namespace {{namespace}};
+
+[TestClass]
+public class {{testClassName}}
+{
+    [TestMethod]
+    [Ignore("Not implemented yet")]
+    public void {{classUnderTest}}_Should_Work()
+    {
+    }
+}
+`,
+};
+
+export function isTestFramework(value: unknown): value is TestFramework {
+  return typeof value === 'string' && (TEST_FRAMEWORKS as readonly string[]).includes(value);
+}
+
+export function getBuiltInTemplate(framework: TestFramework): string {
+  return BUILT_IN_TEMPLATES[framework];
+}
+
+export async function loadTemplate(
+  framework: TestFramework,
+  templatePath?: string,
+): Promise<string> {
+  if (!templatePath) {
+    return getBuiltInTemplate(framework);
+  }
+
+  try {
+    return await fs.readFile(templatePath, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Failed to read test template ${templatePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
+
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replaceAll(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? values[name as keyof TemplateValues]
+      : placeholder,
+  );
+}
@@ -4,20 +4,95 @@ export interface AnalysisResult {
   testRoot?: string;
   errors: AnalysisError[];
   isIgnored?: boolean;
+  // Test project flavour the file belongs to, set when flavours are configured
+  flavour?: string;
 }
 
 export interface AnalysisError {
   type: AnalysisErrorType;
+  ruleId: RuleId;
+  severity: Severity;
   message: string;
   sourceFilePath?: string;
   actualTestPath?: string;
   expectedTestPath?: string;
+  // Class declared in the test file, for findings about the file content
+  className?: string;
+  // What an orphaned test probably tests, best first
+  suggestions?: RepairSuggestion[];
+  // Set when the source was picked among several of the same name by the test's content
+  sourceResolution?: SourceResolution;
+  // Previous path of the source when git reports it renamed among the analyzed changes
+  sourceRenamedFrom?: string;
+  // Stable id of the finding, independent of where the repository is checked out
+  fingerprint?: string;
+}
+
+export interface SourceResolution {
+  // Only high confidence resolutions are offered to the fixer
+  confidence: 'high' | 'medium';
+  // What in the test file points at the source, strongest first
+  reason: 'qualified-name' | 'enclosing-namespace' | 'using' | 'mirrored-namespace';
+}
+
+// A source file the missing-test rule does not expect a test for, and why
+export interface MissingTestExemption {
+  sourceFilePath: string;
+  reason: 'type-kinds' | 'exclude-from-code-coverage' | 'auto-generated' | 'path-pattern';
+  // The declared type kinds or the matching pattern
+  detail?: string;
+}
+
+export interface RepairSuggestion {
+  sourceFilePath: string;
+  // Where the test belongs if it tests this source file
+  expectedTestPath: string;
+  reason: 'git-rename' | 'similar-name';
+  // 0 to 1, 1 for sources renamed in git
+  similarity: number;
 }
 
 export enum AnalysisErrorType {
   InvalidFileName = 'Invalid File Name',
   InvalidDirectoryStructure = 'Invalid Directory Structure',
   MissingTest = 'Missing Test File',
+  UnusedSuppression = 'Unused Suppression',
+  ClassNameMismatch = 'Class Name Mismatch',
+  NamespaceMismatch = 'Namespace Mismatch',
+  OrphanedTest = 'Orphaned Test',
+}
+
+export type RuleId =
+  | 'invalid-file-name'
+  | 'invalid-directory-structure'
+  | 'missing-test'
+  | 'unused-suppression'
+  | 'class-name-mismatch'
+  | 'namespace-mismatch'
+  | 'orphaned-test';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+// 'off' disables the rule regardless of its toggle
+export type RuleSeverity = Severity | 'off';
+
+export interface RuleSettings {
+  // Overrides the validate* toggle the rule is bound to
+  enabled?: boolean;
+  severity?: RuleSeverity;
+  options?: Record<string, unknown>;
+}
+
+export type RulesConfig = Partial<Record<RuleId, RuleSettings>>;
+
+// A kind of test project, e.g. unit tests in *.UnitTests and integration tests in *.IntegrationTests
+export interface TestProjectFlavour {
+  name: string;
+  // Test project name prefix and suffix, stripped to find the source project
+  prefix?: string;
+  suffix?: string;
+  // Layered over the top-level rules for the tests of this flavour
+  rules?: RulesConfig;
 }
 
 export interface AnalyzerOptions {
@@ -29,8 +104,40 @@ export interface AnalyzerOptions {
   validateMissingTests: boolean;
   testFileSuffix: string;
   testProjectSuffix: string;
+  // Test project named Tests.Billing for the Billing project
+  testProjectPrefix: string;
+  // Source project name -> test project name, for test projects named differently
+  testProjectNames: Record<string, string>;
+  // Replaces testProjectPrefix and testProjectSuffix when not empty
+  testProjectFlavours: TestProjectFlavour[];
+  // Names of further test files of one source, e.g. {Source}.{Topic}Tests for
+  // OrderService.CancelTests
+  splitTestPatterns: string[];
+  // Folder and file names ignored wherever they are
   ignoreDirectories: string[];
   ignoreFiles: string[];
+  // gitignore-style patterns per side, e.g. src/Legacy/**, **/*.g.cs or !src/Legacy/Keep/**
+  sourceIgnorePatterns: string[];
+  testIgnorePatterns: string[];
+  // Also ignore what the .gitignore files ignore, .tfslignore files are always read
+  respectGitignore: boolean;
+  rules: RulesConfig;
+  // Warnings above this count fail the run, -1 means no limit
+  maxWarnings: number;
+  // Findings recorded in this file are not reported again
+  baseline?: string;
+  // Move and rename tracked test files with git mv so their history follows them
+  gitMove: boolean;
+  // Map test projects to source projects through the .sln and .csproj files instead of
+  // the first folder below the roots
+  solution?: string;
+  // Reuse what earlier runs read from unchanged files, stored in cacheDir
+  cache: boolean;
+  cacheDir: string;
+  // Only report findings about files changed since this git ref, or about the staged files.
+  // Tests are still matched against every file
+  changedSince?: string;
+  staged: boolean;
 }
 
 export const DEFAULT_OPTIONS: AnalyzerOptions = {
@@ -42,6 +149,37 @@ export const DEFAULT_OPTIONS: AnalyzerOptions = {
   validateMissingTests: true,
   testFileSuffix: 'Tests',
   testProjectSuffix: '.Tests',
+  testProjectPrefix: '',
+  testProjectNames: {},
+  testProjectFlavours: [],
+  splitTestPatterns: [],
   ignoreDirectories: ['obj', 'bin'],
   ignoreFiles: [],
+  sourceIgnorePatterns: [],
+  testIgnorePatterns: [],
+  respectGitignore: false,
+  rules: {},
+  maxWarnings: -1,
+  gitMove: true,
+  cache: false,
+  cacheDir: '.tfsl-cache',
+  staged: false,
 };
+
+// Reported while the library API works, nothing is printed by it
+export type LinterEvent =
+  | {
+      type: 'progress';
+      stage: 'listing' | 'analyzing' | 'fixing';
+      completed: number;
+      total: number;
+    }
+  | {
+      // Something the caller may want to tell the user, the run goes on
+      type: 'diagnostic';
+      level: 'info' | 'warning';
+      message: string;
+      filePath?: string;
+    };
+
+export type LinterEventListener = (event: LinterEvent) => void;
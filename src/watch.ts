@@ -0,0 +1,170 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { AnalysisError, AnalysisResult, AnalyzerOptions } from './types';
+import { computeFingerprint } from './baseline';
+import { isWalkedDirectory, WalkRoot } from './file-walk';
+
+// Changes arriving within this time are handled together, a folder move is one batch
+export const WATCH_DELAY_MS = 200;
+
+export interface DirectoryWatcher {
+  close(): void;
+}
+
+export interface FindingChange {
+  result: AnalysisResult;
+  error: AnalysisError;
+}
+
+// Findings that appeared and disappeared between two runs
+export interface FindingDelta {
+  added: FindingChange[];
+  resolved: FindingChange[];
+}
+
+// What a watch redraw shows, results after the baseline like the first report
+export interface WatchUpdate {
+  results: AnalysisResult[];
+  totalFiles: number;
+  delta: FindingDelta;
+  reanalyzedTests: number;
+  unreadableFiles: string[];
+}
+
+// Watches every directory the roots walk, one watcher per directory since recursive watching
+// is not available on every platform and Node version. Folders created or moved in are
+// watched as they show up. Changed paths are collected for delayMs and handed over in a
+// batch, the next batch waits until onChange has finished the previous one
+export function watchDirectories(
+  roots: WalkRoot[],
+  onChange: (changedPaths: string[]) => Promise<void>,
+  delayMs = WATCH_DELAY_MS,
+): DirectoryWatcher {
+  const resolvedRoots = roots.map((root) => ({ ...root, dir: path.resolve(root.dir) }));
+  const watchers = new Map<string, fs.FSWatcher>();
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+  let closed = false;
+
+  const flush = async () => {
+    timer = undefined;
+    if (running || closed || pending.size === 0) {
+      return;
+    }
+    const changedPaths = [...pending];
+    pending.clear();
+    running = true;
+    try {
+      await onChange(changedPaths);
+    } finally {
+      running = false;
+      if (pending.size > 0) {
+        schedule();
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => void flush(), delayMs);
+  };
+
+  const watchTree = (dir: string) => {
+    if (closed || watchers.has(dir)) {
+      return;
+    }
+    let entries: fs.Dirent[];
+    let watcher: fs.FSWatcher;
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+      watcher = fs.watch(dir, (_eventType, fileName) => {
+        if (!fileName || fileName.toString().startsWith('.')) {
+          return;
+        }
+        const changedPath = path.join(dir, fileName.toString());
+        pending.add(changedPath);
+        // Folders moved away stop being watched, so one created in their place is watched again
+        if (watchers.has(changedPath) && !fs.existsSync(changedPath)) {
+          unwatchTree(changedPath);
+        }
+        if (isWalkedDirectory(resolvedRoots, changedPath)) {
+          watchTree(changedPath);
+        }
+        schedule();
+      });
+    } catch {
+      // Not a directory, or gone already
+      return;
+    }
+    // Raised when the directory itself is removed, its parent reports that
+    watcher.on('error', () => {
+      watcher.close();
+      watchers.delete(dir);
+    });
+    watchers.set(dir, watcher);
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (
+        entry.isDirectory() &&
+        !entry.name.startsWith('.') &&
+        isWalkedDirectory(resolvedRoots, entryPath)
+      ) {
+        watchTree(entryPath);
+      }
+    }
+  };
+
+  const unwatchTree = (dir: string) => {
+    for (const [watchedDir, watcher] of watchers) {
+      if (watchedDir === dir || watchedDir.startsWith(dir + path.sep)) {
+        watcher.close();
+        watchers.delete(watchedDir);
+      }
+    }
+  };
+
+  for (const root of resolvedRoots) {
+    watchTree(root.dir);
+  }
+
+  return {
+    close() {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      watchers.clear();
+    },
+  };
+}
+
+// Findings are told apart by their fingerprint, a finding whose message changes stays the same
+export function diffFindings(
+  previous: AnalysisResult[],
+  current: AnalysisResult[],
+  options: AnalyzerOptions,
+): FindingDelta {
+  const index = (results: AnalysisResult[]) => {
+    const changes = new Map<string, FindingChange>();
+    for (const result of results) {
+      for (const error of result.errors) {
+        changes.set(computeFingerprint(result, error, options), { result, error });
+      }
+    }
+    return changes;
+  };
+  const before = index(previous);
+  const after = index(current);
+
+  return {
+    added: [...after].filter(([key]) => !before.has(key)).map(([, change]) => change),
+    resolved: [...before].filter(([key]) => !after.has(key)).map(([, change]) => change),
+  };
+}
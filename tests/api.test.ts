@@ -0,0 +1,168 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { analyze, applyFixes, LinterEvent, planFixes } from '..';
+
+// The package entry as build scripts load it, resolved through main and types
+describe('Library API', () => {
+    const tempDir = path.resolve(`test-data-temp-${Date.now()}`);
+    const options = {
+        srcRoot: path.join(tempDir, 'src'),
+        testRoot: path.join(tempDir, 'tests'),
+        validateFileName: false,
+        validateMissingTests: false,
+    };
+    const misplacedTest = path.join(tempDir, 'tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs');
+    const expectedTest = path.join(tempDir, 'tests/Application.Tests/Services/UserServiceTests.cs');
+    let consoleLog: jest.SpyInstance;
+
+    beforeEach(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+        await fs.promises.cp('test-data', tempDir, { recursive: true });
+        consoleLog = jest.spyOn(console, 'log');
+    });
+
+    afterEach(() => {
+        expect(consoleLog).not.toHaveBeenCalled();
+        consoleLog.mockRestore();
+    });
+
+    afterAll(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should analyze without printing and report its progress', async () => {
+        const events: LinterEvent[] = [];
+        const analysis = await analyze(options, { onEvent: (event) => events.push(event) });
+
+        expect(analysis.results.map((result) => result.testFile)).toContain('UserServiceTests.cs');
+        expect(analysis.options.srcRoot).toBe(options.srcRoot);
+        expect(events[0]).toEqual({ type: 'progress', stage: 'listing', completed: analysis.totalFiles, total: analysis.totalFiles });
+        expect(events.at(-1)).toMatchObject({ type: 'progress', stage: 'analyzing' });
+    });
+
+    it('should plan the fixes without changing files and apply the plan', async () => {
+        const plan = await planFixes(await analyze(options));
+        expect(plan.fixes).toContainEqual(expect.objectContaining({ action: 'move', from: misplacedTest, to: expectedTest }));
+        expect(fs.existsSync(misplacedTest)).toBe(true);
+
+        const events: LinterEvent[] = [];
+        const { applied, sessionId } = await applyFixes(plan, { onEvent: (event) => events.push(event) });
+        expect(applied).toContainEqual(expect.objectContaining({ from: misplacedTest, to: expectedTest }));
+        expect(fs.existsSync(misplacedTest)).toBe(false);
+        expect(fs.existsSync(expectedTest)).toBe(true);
+        expect(sessionId).toBeNull();
+        expect(events.at(-1)).toEqual({ type: 'progress', stage: 'fixing', completed: plan.fixes.length, total: plan.fixes.length });
+    });
+
+    it('should not apply a plan whose files changed since, and roll back the fixes made before', async () => {
+        const plan = await planFixes(await analyze(options));
+        const lastFix = plan.fixes.at(-1)!;
+        await fs.promises.appendFile(lastFix.from, '// changed\n');
+
+        await expect(applyFixes(plan)).rejects.toThrow('the file changed since the fix was planned');
+        for (const fix of plan.fixes.slice(0, -1)) {
+            expect(fs.existsSync(fix.from)).toBe(true);
+        }
+    });
+
+    it('should roll back a move that failed after the file was copied to its new path', async () => {
+        const plan = await planFixes(await analyze(options));
+        const unlink = fs.promises.unlink;
+        const failingUnlink = jest.spyOn(fs.promises, 'unlink').mockImplementation(async (filePath) => {
+            if (filePath === misplacedTest) {
+                throw new Error('unlink failed');
+            }
+            return unlink(filePath);
+        });
+
+        try {
+            await expect(applyFixes(plan)).rejects.toThrow('unlink failed');
+        } finally {
+            failingUnlink.mockRestore();
+        }
+        expect(fs.existsSync(misplacedTest)).toBe(true);
+        expect(fs.existsSync(expectedTest)).toBe(false);
+    });
+
+    it('should read the solution again on every analysis', async () => {
+        const writeFile = async (filePath: string, content: string) => {
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, content);
+        };
+        const referencing = (project: string) =>
+            '<Project Sdk="Microsoft.NET.Sdk">\n  <PropertyGroup>\n    <IsTestProject>true</IsTestProject>\n  </PropertyGroup>\n' +
+            (project ? `  <ItemGroup>\n    <ProjectReference Include="${project}" />\n  </ItemGroup>\n` : '') +
+            '</Project>\n';
+        const solutionDir = path.join(tempDir, 'solution');
+        await writeFile(
+            path.join(solutionDir, 'Billing.sln'),
+            ['src\\Billing.Api\\Billing.Api.csproj', 'tests\\Billing.Api.Tests\\Billing.Api.Tests.csproj', 'tests\\Billing.Checks\\Billing.Checks.csproj']
+                .map((project) => `Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "${path.basename(project, '.csproj')}", "${project}", "{}"\nEndProject\n`)
+                .join(''),
+        );
+        await writeFile(path.join(solutionDir, 'src/Billing.Api/Billing.Api.csproj'), '<Project Sdk="Microsoft.NET.Sdk"></Project>\n');
+        await writeFile(path.join(solutionDir, 'src/Billing.Api/Svc/Pay.cs'), 'namespace Billing.Api.Svc;\n\npublic class Pay\n{\n}\n');
+        await writeFile(path.join(solutionDir, 'tests/Billing.Api.Tests/Billing.Api.Tests.csproj'), referencing('..\\..\\src\\Billing.Api\\Billing.Api.csproj'));
+        await writeFile(path.join(solutionDir, 'tests/Billing.Checks/Billing.Checks.csproj'), referencing(''));
+        await writeFile(path.join(solutionDir, 'tests/Billing.Api.Tests/Svc/PayTests.cs'), 'namespace Billing.Api.Tests.Svc;\n\npublic class PayTests\n{\n}\n');
+        const solutionOptions = {
+            srcRoot: path.join(solutionDir, 'src'),
+            testRoot: path.join(solutionDir, 'tests'),
+            solution: path.join(solutionDir, 'Billing.sln'),
+        };
+        expect((await analyze(solutionOptions)).results).toEqual([]);
+
+        // The reference moves to the other test project
+        await writeFile(path.join(solutionDir, 'tests/Billing.Api.Tests/Billing.Api.Tests.csproj'), referencing(''));
+        await writeFile(path.join(solutionDir, 'tests/Billing.Checks/Billing.Checks.csproj'), referencing('..\\..\\src\\Billing.Api\\Billing.Api.csproj'));
+        const [result] = (await analyze(solutionOptions)).results;
+        expect(result.errors).toContainEqual(
+            expect.objectContaining({ expectedTestPath: path.join(solutionDir, 'tests/Billing.Checks/Svc/PayTests.cs') }),
+        );
+    });
+
+    it('should read the root namespace again on every analysis', async () => {
+        const projectFile = path.join(tempDir, 'tests/Application.Tests/Application.Tests.csproj');
+        const withRootNamespace = (rootNamespace: string) =>
+            `<Project Sdk="Microsoft.NET.Sdk">\n  <PropertyGroup>\n    <RootNamespace>${rootNamespace}</RootNamespace>\n  </PropertyGroup>\n</Project>\n`;
+        const namespaceFindings = async () =>
+            (await analyze(options)).results.filter((result) =>
+                result.errors.some((error) => error.ruleId === 'namespace-mismatch'),
+            );
+        await fs.promises.writeFile(projectFile, withRootNamespace('Application.Tests'));
+        const before = await namespaceFindings();
+
+        await fs.promises.writeFile(projectFile, withRootNamespace('Company.Application.Tests'));
+        expect((await namespaceFindings()).length).toBeGreaterThan(before.length);
+    });
+
+    it('should apply a plan with two fixes rewriting the same referencing file', async () => {
+        const mapperTest = path.join(tempDir, 'tests/Application.Tests/Mappers/Users/UserMapperTests.cs');
+        const sharedFixture = path.join(tempDir, 'tests/Application.Tests/SharedFixture.cs');
+        await fs.promises.writeFile(mapperTest, 'namespace Application.Tests.Mappers.Users;\n\npublic class UserMapperTests\n{\n}\n');
+        await fs.promises.writeFile(
+            sharedFixture,
+            'using Application.Tests.Mappers.Users;\nusing Application.Tests.Services.WrongLocation;\n\nnamespace Application.Tests;\n',
+        );
+
+        const plan = await planFixes(await analyze(options));
+        expect(plan.fixes.filter((fix) => fix.to === sharedFixture)).toHaveLength(2);
+
+        await applyFixes(plan);
+        const content = await fs.promises.readFile(sharedFixture, 'utf-8');
+        expect(content).toContain('using Application.Tests.Mappers;');
+        expect(content).toContain('using Application.Tests.Services;');
+    });
+
+    it('should plan and apply the namespace fix of a test that is also moved', async () => {
+        const content = await fs.promises.readFile(misplacedTest, 'utf-8');
+        await fs.promises.writeFile(misplacedTest, content.replace(/namespace [\w.]+;/, 'namespace Totally.Wrong;'));
+
+        const plan = await planFixes(await analyze(options));
+        expect(plan.fixes).toContainEqual(expect.objectContaining({ action: 'move', from: misplacedTest, to: expectedTest }));
+        expect(plan.fixes).toContainEqual(expect.objectContaining({ from: expectedTest, to: expectedTest }));
+
+        await applyFixes(plan);
+        expect(await fs.promises.readFile(expectedTest, 'utf-8')).toContain('namespace Application.Tests.Services;');
+    });
+});
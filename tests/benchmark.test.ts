@@ -0,0 +1,68 @@
+import {
+    exec
+} from 'node:child_process';
+import {
+    promisify
+} from 'node:util';
+import fs from 'node:fs';
+import path from 'node:path';
+import { generateLargeTree, LargeTree } from './fixtures/large-tree';
+
+const execAsync = promisify(exec);
+
+// Guards matching, scanning and fixing against regressions to quadratic time. The tree is
+// sized for CI, TFSL_BENCHMARK_PROJECTS scales it up (60 projects are about 60k files) and
+// TFSL_BENCHMARK_BUDGET_MS sets the time the analysis and the planned fixes may each take
+const projects = Number(process.env.TFSL_BENCHMARK_PROJECTS ?? 10);
+const budgetMs = Number(process.env.TFSL_BENCHMARK_BUDGET_MS ?? 10000);
+
+describe('Benchmark: large synthetic tree', () => {
+    const tempDir = path.resolve(`benchmark-temp-${Date.now()}`);
+    const outputFile = path.join(tempDir, 'report.json');
+    let tree: LargeTree;
+
+    beforeAll(() => {
+        tree = generateLargeTree(tempDir, { projects, foldersPerProject: 20, filesPerFolder: 25 });
+    });
+
+    afterAll(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should analyze the tree within the time budget and find every planted issue', async () => {
+        const start = Date.now();
+        try {
+            await execAsync(
+                `node ./dist/index.js -s "${tree.srcRoot}" -t "${tree.testRoot}" -d -m --no-cache -o "${outputFile}"`,
+                { maxBuffer: 64 * 1024 * 1024 },
+            );
+        } catch {
+            // Findings make the run fail, the report tells what they are
+        }
+        const elapsedMs = Date.now() - start;
+
+        const report = JSON.parse(await fs.promises.readFile(outputFile, 'utf-8'));
+        console.log(
+            `Analyzed ${tree.sourceFiles + tree.testFiles} files in ${elapsedMs} ms (budget ${budgetMs} ms)`,
+        );
+        expect(report.summary.totalFilesAnalyzed).toBe(tree.sourceFiles + tree.testFiles);
+        expect(report.summary.errorCounts.missingTests).toBe(tree.missingTests);
+        expect(report.summary.errorCounts.directoryStructure).toBe(tree.misplacedTests);
+        expect(elapsedMs).toBeLessThan(budgetMs);
+    }, 300000);
+
+    it('should plan the move of every misplaced test within the time budget', async () => {
+        const planFile = path.join(tempDir, 'plan.json');
+        const start = Date.now();
+        await execAsync(
+            `node ./dist/index.js -s "${tree.srcRoot}" -t "${tree.testRoot}" -d -a --dry-run --no-cache --plan-output "${planFile}"`,
+            { maxBuffer: 64 * 1024 * 1024 },
+        );
+        const elapsedMs = Date.now() - start;
+
+        const plan = JSON.parse(await fs.promises.readFile(planFile, 'utf-8'));
+        console.log(`Planned ${plan.fixes.length} fixes in ${elapsedMs} ms (budget ${budgetMs} ms)`);
+        expect(plan.fixes.filter((fix: any) => fix.action === 'move')).toHaveLength(tree.misplacedTests);
+        expect(elapsedMs).toBeLessThan(budgetMs);
+    }, 300000);
+});
@@ -1,10 +1,13 @@
 import {
-    exec
+    ChildProcess,
+    exec,
+    spawn
 } from 'node:child_process';
 import {
     promisify
 } from 'node:util';
 import fs from 'node:fs';
+import path from 'node:path';
 
 const execAsync = promisify(exec);
 
@@ -14,10 +17,13 @@ describe('CLI Tool Tests', () => {
         stdout: string;
         stderr: string;
         jsonOutput: any;
+        exitCode: number;
     }> => {
         const outputFile = `test-output-${Date.now()}.json`;
+        // Only the cache tests keep a cache, in their own temp dir
+        const cacheArgs = args.includes('--cache-dir') ? '' : ' --no-cache';
         try {
-            const result = await execAsync(`node ./dist/index.js ${args} -o ${outputFile}`);
+            const result = await execAsync(`node ./dist/index.js ${args}${cacheArgs} -o ${outputFile}`);
             
             // Read and parse JSON file
             const jsonContent = await fs.promises.readFile(outputFile, 'utf-8');
@@ -29,7 +35,8 @@ describe('CLI Tool Tests', () => {
             return {
                 stdout: result.stdout,
                 stderr: result.stderr,
-                jsonOutput
+                jsonOutput,
+                exitCode: 0
             };
         } catch (error: any) {
             // Handle error case - still try to read JSON if it exists
@@ -43,7 +50,8 @@ describe('CLI Tool Tests', () => {
             return {
                 stdout: error.stdout || '',
                 stderr: error.stderr || '',
-                jsonOutput
+                jsonOutput,
+                exitCode: error.code ?? 1
             };
         }
     };
@@ -202,7 +210,7 @@ describe('CLI Tool Tests', () => {
             await fs.promises.cp('test-data', tempDir, { recursive: true });
             
             // Run CLI with --all on the temporary copy to fix all issues
-            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n --fix ${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`);
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n --fix ${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs --journal-dir ${tempDir}/.tfsl-journal`);
             
             // Run analysis again to get the result after fixing
             const resultAfterFix = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n`);
@@ -266,7 +274,7 @@ describe('CLI Tool Tests', () => {
             await fs.promises.cp('test-data', tempDir, { recursive: true });
             
             // Run CLI with --fix on the temporary copy to rename the file
-            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n --fix ${tempDir}/tests/Application.Tests/Services/UpercaseXyzServiceTests.cs`);
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n --fix ${tempDir}/tests/Application.Tests/Services/UpercaseXyzServiceTests.cs --journal-dir ${tempDir}/.tfsl-journal`);
             
             // Run analysis again to get the result after fixing
             const resultAfterFix = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n`);
@@ -345,4 +353,1457 @@ describe('CLI Tool Tests', () => {
             expect(content).toContain('new UpercaseXYZService()');
         });
     });
-});
\ No newline at end of file
+    describe('Scenario 5: options from a config file', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+
+        beforeAll(async () => {
+            await fs.promises.mkdir(tempDir, { recursive: true });
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should resolve roots relative to the config file and produce the same issues as the flags', async () => {
+            const configPath = `${tempDir}/.testfilestructurelintrc.json`;
+            await fs.promises.writeFile(configPath, JSON.stringify({
+                srcRoot: '../test-data/src',
+                testRoot: '../test-data/tests',
+                validateFileName: true,
+                validateDirectoryStructure: true,
+            }));
+
+            const result = await executeCLI(`--config ${configPath}`);
+            expect(result.jsonOutput.summary.totalFilesWithIssues).toBe(7);
+        });
+
+        it('should let CLI flags override the config file', async () => {
+            const configPath = `${tempDir}/override.yaml`;
+            await fs.promises.writeFile(configPath, [
+                'srcRoot: ../test-data/src',
+                'testRoot: ../test-data/tests',
+                'validateFileName: true',
+                'validateDirectoryStructure: true',
+                'ignoreFiles:',
+                '  - CalcTests.cs',
+            ].join('\n'));
+
+            const result = await executeCLI(`--config ${configPath} --ignore-files "ToBeIgnoredTests.cs"`);
+            const hasIssue = (fileName: string) =>
+                result.jsonOutput.filesWithIssues.some((issue: any) => issue.testName === fileName);
+            expect(hasIssue('CalcTests.cs')).toBe(true);
+            expect(hasIssue('ToBeIgnoredTests.cs')).toBe(false);
+        });
+
+        it('should name the offending field when the config is invalid', async () => {
+            const configPath = `${tempDir}/invalid.json`;
+            await fs.promises.writeFile(configPath, JSON.stringify({ srcRoot: 'src', ignoreFiles: 'Foo.cs' }));
+
+            const result = await executeCLI(`--config ${configPath} -t ./test-data/tests/`);
+            expect(result.jsonOutput).toBeNull();
+            expect(result.stderr).toContain('"ignoreFiles" must be an array of strings');
+        });
+
+        it('should reject unknown options', async () => {
+            const configPath = `${tempDir}/unknown.json`;
+            await fs.promises.writeFile(configPath, JSON.stringify({ srcRootz: 'src' }));
+
+            const result = await executeCLI(`--config ${configPath}`);
+            expect(result.stderr).toContain('unknown option "srcRootz"');
+        });
+    });
+    describe('Scenario 6: rule toggles', () => {
+        const hasIssueIn = (jsonOutput: any, fileName: string) =>
+            jsonOutput.filesWithIssues.some((issue: any) => issue.testName === fileName);
+
+        it('should report only file name issues with -n', async () => {
+            const { jsonOutput } = await executeCLI('-s ./test-data/src/ -t ./test-data/tests/ -n');
+            expect(hasIssueIn(jsonOutput, 'UpercaseXyzServiceTests.cs')).toBe(true);
+            expect(hasIssueIn(jsonOutput, 'UserServiceTests.cs')).toBe(false);
+            expect(jsonOutput.summary.errorCounts.directoryStructure).toBe(0);
+        });
+
+        it('should report only directory structure issues with -d', async () => {
+            const { jsonOutput } = await executeCLI('-s ./test-data/src/ -t ./test-data/tests/ -d');
+            expect(hasIssueIn(jsonOutput, 'UpercaseXyzServiceTests.cs')).toBe(false);
+            expect(hasIssueIn(jsonOutput, 'UserServiceTests.cs')).toBe(true);
+            expect(jsonOutput.summary.errorCounts.filename).toBe(0);
+        });
+
+        it('should apply rule settings from the config file', async () => {
+            const tempDir = `test-data-temp-${Date.now()}`;
+            await fs.promises.mkdir(tempDir, { recursive: true });
+            const configPath = `${tempDir}/rules.json`;
+            await fs.promises.writeFile(configPath, JSON.stringify({
+                rules: {
+                    'invalid-file-name': { options: { ignoreCase: true } },
+                    'invalid-directory-structure': { enabled: false },
+                },
+            }));
+
+            try {
+                const { jsonOutput } = await executeCLI(`--config ${configPath} -s ./test-data/src/ -t ./test-data/tests/ -n -d`);
+                expect(hasIssueIn(jsonOutput, 'UpercaseXyzServiceTests.cs')).toBe(false);
+                expect(jsonOutput.summary.errorCounts.directoryStructure).toBe(0);
+            } finally {
+                await fs.promises.rm(tempDir, { recursive: true, force: true });
+            }
+        });
+    });
+    describe('Scenario 7: severities and exit codes', () => {
+        const args = '-s ./test-data/src/ -t ./test-data/tests/ -d -n';
+
+        it('should fail with the default error severity', async () => {
+            const result = await executeCLI(args);
+            expect(result.exitCode).toBe(1);
+            expect(result.jsonOutput.filesWithIssues.every((issue: any) => issue.severity === 'error')).toBe(true);
+        });
+
+        it('should pass when every finding is a warning', async () => {
+            const result = await executeCLI(`${args} --severity invalid-file-name=warning,invalid-directory-structure=warning,orphaned-test=warning`);
+            expect(result.exitCode).toBe(0);
+            expect(result.jsonOutput.summary.severityCounts).toEqual({ error: 0, warning: 7, info: 0 });
+        });
+
+        it('should fail when warnings exceed --max-warnings', async () => {
+            const result = await executeCLI(`${args} --severity invalid-file-name=warning,invalid-directory-structure=warning,orphaned-test=warning --max-warnings 3`);
+            expect(result.exitCode).toBe(1);
+        });
+
+        it('should not run rules turned off', async () => {
+            const result = await executeCLI(`${args} --severity invalid-directory-structure=off`);
+            expect(result.jsonOutput.summary.errorCounts.directoryStructure).toBe(0);
+            expect(result.jsonOutput.summary.errorCounts.filename).toBeGreaterThan(0);
+        });
+
+        it('should reject unknown severities', async () => {
+            const result = await executeCLI(`${args} --severity missing-test=fatal`);
+            expect(result.exitCode).not.toBe(0);
+            expect(result.stderr).toContain('must be one of error, warning, info, off');
+        });
+    });
+    describe('Scenario 8: baseline', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const args = `-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n --baseline ./${tempDir}/baseline.json`;
+        let baselineRun: any;
+        let laterRun: any;
+
+        beforeAll(async () => {
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            baselineRun = await executeCLI(`${args} --update-baseline`);
+
+            // Fix one known issue and introduce a new one
+            await fs.promises.rm(`${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`);
+            await fs.promises.mkdir(`${tempDir}/tests/Application.Tests/Misplaced`, { recursive: true });
+            await fs.promises.writeFile(`${tempDir}/tests/Application.Tests/Misplaced/OrderServiceTests.cs`, '');
+
+            laterRun = await executeCLI(args);
+        }, 15000);
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should store portable paths and fingerprints in the baseline file', async () => {
+            const baseline = JSON.parse(await fs.promises.readFile(`${tempDir}/baseline.json`, 'utf-8'));
+            expect(baseline.length).toBe(7);
+            for (const result of baseline) {
+                expect(result.testFilePath.startsWith('tests/')).toBe(true);
+                expect(result.errors.every((error: any) => typeof error.fingerprint === 'string')).toBe(true);
+            }
+        });
+
+        it('should report nothing right after updating the baseline', () => {
+            expect(baselineRun.exitCode).toBe(0);
+            expect(baselineRun.jsonOutput.filesWithIssues.length).toBe(0);
+            expect(baselineRun.jsonOutput.baseline.suppressed).toBe(7);
+        });
+
+        it('should report only findings that are not in the baseline', () => {
+            expect(laterRun.exitCode).toBe(1);
+            expect(laterRun.jsonOutput.filesWithIssues.map((issue: any) => issue.testName)).toEqual(['OrderServiceTests.cs']);
+        });
+
+        it('should list baseline entries that are fixed', () => {
+            expect(laterRun.jsonOutput.baseline.fixed.map((entry: any) => entry.testName)).toEqual(['UserServiceTests.cs']);
+            expect(laterRun.jsonOutput.baseline.fixed[0].ruleId).toBe('invalid-directory-structure');
+        });
+    });
+    describe('Scenario 9: suppression comments', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        let result: any;
+
+        const prepend = async (file: string, line: string) => {
+            const content = await fs.promises.readFile(file, 'utf-8');
+            await fs.promises.writeFile(file, `${line}\n${content}`);
+        };
+
+        beforeAll(async () => {
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            await prepend(`${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`, '// tfsl-disable-file invalid-directory-structure');
+            await prepend(`${tempDir}/src/Application/Services/UpercaseXYZService.cs`, '// tfsl-no-test-required');
+            await prepend(`${tempDir}/src/Application/Services/OrderService.cs`, '// tfsl-no-test-required');
+            await prepend(`${tempDir}/tests/Application.Tests/Services/OrderServiceTests.cs`, '// tfsl-disable-file invalid-file-name');
+
+            result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n -m`);
+        }, 15000);
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        const issuesOf = (fileName: string) =>
+            result.jsonOutput.filesWithIssues.filter((issue: any) => issue.testName === fileName);
+
+        it('should drop findings disabled in the test file', () => {
+            expect(issuesOf('UserServiceTests.cs')).toEqual([]);
+        });
+
+        it('should drop missing test findings for sources that opt out', () => {
+            expect(issuesOf('UpercaseXYZServiceTests.cs').some((issue: any) => issue.ruleId === 'missing-test')).toBe(false);
+        });
+
+        it('should count suppressed findings in the summary', () => {
+            expect(result.jsonOutput.summary.suppressed).toEqual({
+                total: 2,
+                byRule: { 'invalid-directory-structure': 1, 'missing-test': 1 },
+            });
+        });
+
+        it('should warn about suppressions that suppress nothing', () => {
+            const unused = result.jsonOutput.filesWithIssues.filter((issue: any) => issue.ruleId === 'unused-suppression');
+            expect(unused.map((issue: any) => issue.testName).sort()).toEqual(['OrderService.cs', 'OrderServiceTests.cs']);
+            expect(unused.every((issue: any) => issue.severity === 'warning')).toBe(true);
+        });
+    });
+
+    describe('Scenario 10: scaffolding missing tests', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const createdTest = `${tempDir}/tests/Application.Tests/Services/UpercaseXYZServiceTests.cs`;
+        let firstRun: any;
+        let secondRun: any;
+
+        beforeAll(async () => {
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            firstRun = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -m --scaffold-missing --test-framework nunit --journal-dir ${tempDir}/.tfsl-journal`);
+            secondRun = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -m`);
+        }, 15000);
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should create the missing test file from the framework template', async () => {
+            expect(firstRun.stdout).toContain('Created 1 test files');
+            const content = await fs.promises.readFile(createdTest, 'utf-8');
+            expect(content).toContain('namespace Application.Tests.Services;');
+            expect(content).toContain('using Application.Services;');
+            expect(content).toContain('using NUnit.Framework;');
+            expect(content).toContain('public class UpercaseXYZServiceTests');
+        });
+
+        it('should not report the scaffolded test as missing anymore', () => {
+            expect(secondRun.jsonOutput.filesWithIssues).toEqual([]);
+        });
+
+        it('should reject unknown test frameworks', async () => {
+            const result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -m --scaffold-missing --test-framework jasmine`);
+            expect(result.exitCode).not.toBe(0);
+            expect(result.stderr).toContain('Must be one of xunit, nunit, mstest');
+        });
+    });
+
+    describe('Scenario 11: dry run', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const misplacedTest = `${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`;
+        let result: any;
+        let plan: any;
+
+        beforeAll(async () => {
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --dry-run --plan-output ${tempDir}/plan.json`);
+            plan = JSON.parse(await fs.promises.readFile(`${tempDir}/plan.json`, 'utf-8'));
+        }, 15000);
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should not move any file', () => {
+            expect(fs.existsSync(misplacedTest)).toBe(true);
+            expect(fs.existsSync(`${tempDir}/tests/Application.Tests/Services/UserServiceTests.cs`)).toBe(false);
+        });
+
+        it('should print the planned moves and content diffs', () => {
+            expect(result.stdout).toContain('Dry run, no files were changed.');
+            expect(result.stdout).toContain(`move ${misplacedTest} → ${tempDir}/tests/Application.Tests/Services/UserServiceTests.cs`);
+            expect(result.stdout).toContain('-namespace Application.Tests.Services.WrongLocation;');
+            expect(result.stdout).toContain('+namespace Application.Tests.Services;');
+        });
+
+        it('should write the plan as JSON', () => {
+            expect(plan.dryRun).toBe(true);
+            expect(plan.fixes.map((fix: any) => fix.action)).toEqual(['move', 'move']);
+            const namespaceFix = plan.fixes.find((fix: any) => fix.from === misplacedTest);
+            expect(namespaceFix.diff).toContain('+namespace Application.Tests.Services;');
+        });
+    });
+
+    describe('Scenario 12: undo and rollback', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const journalDir = `${tempDir}/.tfsl-journal`;
+        const misplacedTest = `${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`;
+        const movedTest = `${tempDir}/tests/Application.Tests/Services/UserServiceTests.cs`;
+        const misplacedMapperTest = `${tempDir}/tests/Application.Tests/Mappers/Users/UserMapperTests.cs`;
+
+        const runCLI = async (args: string) => {
+            try {
+                return { ...(await execAsync(`node ./dist/index.js ${args}`)), exitCode: 0 };
+            } catch (error: any) {
+                return { stdout: error.stdout || '', stderr: error.stderr || '', exitCode: error.code ?? 1 };
+            }
+        };
+        const fixAll = () => runCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --no-cache --journal-dir ${journalDir}`);
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should restore the moved files of the latest session', async () => {
+            await fixAll();
+            expect(fs.existsSync(movedTest)).toBe(true);
+
+            const result = await runCLI(`undo --journal-dir ${journalDir}`);
+            expect(result.exitCode).toBe(0);
+            expect(fs.existsSync(movedTest)).toBe(false);
+            expect(fs.existsSync(misplacedTest)).toBe(true);
+            expect(fs.existsSync(misplacedMapperTest)).toBe(true);
+        }, 15000);
+
+        it('should refuse to undo when a fixed file was changed afterwards', async () => {
+            const fixResult = await fixAll();
+            const sessionId = /session (\S+),/.exec(fixResult.stdout)![1];
+            await fs.promises.appendFile(movedTest, '\n// edited after the fix\n');
+
+            const result = await runCLI(`undo ${sessionId} --journal-dir ${journalDir}`);
+            expect(result.exitCode).toBe(1);
+            expect(result.stderr).toContain('file was changed after the fix');
+            expect(fs.existsSync(movedTest)).toBe(true);
+            expect(fs.existsSync(misplacedMapperTest)).toBe(false);
+        }, 15000);
+
+        it('should roll back the whole batch when one move fails', async () => {
+            await fs.promises.writeFile(movedTest, '// already here');
+
+            const result = await fixAll();
+            expect(result.exitCode).toBe(1);
+            expect(result.stderr).toContain('rolled back 1 fixes');
+            expect(fs.existsSync(misplacedMapperTest)).toBe(true);
+            expect(fs.existsSync(misplacedTest)).toBe(true);
+        }, 15000);
+    });
+
+    describe('Scenario 13: git mv', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const gitStatus = async () => (await execAsync('git status --porcelain', { cwd: tempDir })).stdout;
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            await execAsync('git init -q && git add -A && git -c user.name=test -c user.email=test@example.com commit -q -m init', { cwd: tempDir });
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should record moves and renames as git renames', async () => {
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --journal-dir ${tempDir}/.tfsl-journal`);
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -n --fix ${tempDir}/tests/Application.Tests/Services/UpercaseXyzServiceTests.cs --journal-dir ${tempDir}/.tfsl-journal`);
+
+            const status = await gitStatus();
+            expect(status).toContain('R  tests/Application.Tests/Mappers/Users/UserMapperTests.cs -> tests/Application.Tests/Mappers/UserMapperTests.cs');
+            // Renamed in the index, the namespace rewrite is left as a working tree change
+            expect(status).toContain('RM tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs -> tests/Application.Tests/Services/UserServiceTests.cs');
+            expect(status).toContain('RM tests/Application.Tests/Services/UpercaseXyzServiceTests.cs -> tests/Application.Tests/Services/UpercaseXYZServiceTests.cs');
+        }, 15000);
+
+        it('should move files without git with --no-git-mv', async () => {
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --no-git-mv --journal-dir ${tempDir}/.tfsl-journal`);
+
+            const status = await gitStatus();
+            expect(status).toContain(' D tests/Application.Tests/Mappers/Users/UserMapperTests.cs');
+            expect(status).not.toContain('R  ');
+        }, 15000);
+
+        it('should move files back with git into folders removed after the fix', async () => {
+            const journalDir = `${tempDir}/.tfsl-journal`;
+            await fs.promises.mkdir(`${tempDir}/src/Application/Reports`);
+            await fs.promises.writeFile(`${tempDir}/src/Application/Reports/ReportService.cs`, 'public class ReportService { }\n');
+            await fs.promises.writeFile(`${tempDir}/tests/Application.Tests/ReportServiceTests.cs`, 'public class ReportServiceTests { }\n');
+            await execAsync('git add -A && git -c user.name=test -c user.email=test@example.com commit -q -m reports', { cwd: tempDir });
+
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --journal-dir ${journalDir}`);
+            expect(fs.existsSync(`${tempDir}/tests/Application.Tests/Reports/ReportServiceTests.cs`)).toBe(true);
+            await fs.promises.rm(`${tempDir}/tests/Application.Tests/Mappers/Users`, { recursive: true, force: true });
+
+            await execAsync(`node ./dist/index.js undo --journal-dir ${journalDir}`);
+            expect(fs.existsSync(`${tempDir}/tests/Application.Tests/Mappers/Users/UserMapperTests.cs`)).toBe(true);
+            expect(fs.existsSync(`${tempDir}/tests/Application.Tests/ReportServiceTests.cs`)).toBe(true);
+            // The folder the fix created goes with it
+            expect(fs.existsSync(`${tempDir}/tests/Application.Tests/Reports`)).toBe(false);
+            expect(await gitStatus()).not.toContain('tests/');
+        }, 15000);
+    });
+
+    describe('Scenario 14: class name matches file name', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const mapperTest = `${tempDir}/tests/Application.Tests/Mappers/ProductMapperTests.cs`;
+        const orderTest = `${tempDir}/tests/Application.Tests/Services/OrderServiceTests.cs`;
+        const analyze = () => executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -n --no-git-mv --journal-dir ${tempDir}/.tfsl-journal`);
+        const mismatchesOf = (result: any) =>
+            result.jsonOutput.filesWithIssues.filter((issue: any) => issue.ruleId === 'class-name-mismatch');
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            const content = await fs.promises.readFile(mapperTest, 'utf-8');
+            await fs.promises.writeFile(mapperTest, content.replace('public class ProductMapperTests', 'public class ProductMapperSpec'));
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should report a test class not named like its file', async () => {
+            const mismatches = mismatchesOf(await analyze());
+            expect(mismatches).toHaveLength(1);
+            expect(mismatches[0].testName).toBe('ProductMapperTests.cs');
+            expect(mismatches[0].message).toContain('Found: ProductMapperSpec');
+        });
+
+        it('should ignore nested and partial helper classes', async () => {
+            const content = await fs.promises.readFile(orderTest, 'utf-8');
+            await fs.promises.writeFile(orderTest, `${content}\npublic partial class OrderServiceTests\n{\n    private class Builder { }\n}\n`);
+            expect(mismatchesOf(await analyze()).map((issue: any) => issue.testName)).toEqual(['ProductMapperTests.cs']);
+        });
+
+        it('should rename the class with --fix', async () => {
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -n --fix ${mapperTest} --journal-dir ${tempDir}/.tfsl-journal`);
+            const content = await fs.promises.readFile(mapperTest, 'utf-8');
+            expect(content).toContain('public class ProductMapperTests');
+            expect(mismatchesOf(await analyze())).toEqual([]);
+        });
+
+        it('should rename the file instead with --class-name-fix file', async () => {
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -n --fix ${mapperTest} --class-name-fix file --journal-dir ${tempDir}/.tfsl-journal`);
+            expect(fs.existsSync(mapperTest)).toBe(false);
+            expect(fs.existsSync(`${tempDir}/tests/Application.Tests/Mappers/ProductMapperSpec.cs`)).toBe(true);
+        });
+    });
+
+    describe('Scenario 15: namespace matches folder', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const mapperTest = `${tempDir}/tests/Application.Tests/Mappers/ProductMapperTests.cs`;
+        const namespaceIssuesOf = (result: any) =>
+            result.jsonOutput.filesWithIssues.filter((issue: any) => issue.ruleId === 'namespace-mismatch');
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            const content = await fs.promises.readFile(mapperTest, 'utf-8');
+            await fs.promises.writeFile(mapperTest, content.replace('namespace Application.Tests.Mappers;', 'namespace Application.Tests.Wrong;'));
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should report a namespace that does not follow the folders', async () => {
+            const issues = namespaceIssuesOf(await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d`));
+            expect(issues).toHaveLength(1);
+            expect(issues[0].testName).toBe('ProductMapperTests.cs');
+            expect(issues[0].message).toContain('expected: Application.Tests.Mappers');
+        });
+
+        it('should use the root namespace of the .csproj', async () => {
+            await fs.promises.writeFile(
+                `${tempDir}/tests/Application.Tests/Application.Tests.csproj`,
+                '<Project Sdk="Microsoft.NET.Sdk">\n  <PropertyGroup>\n    <RootNamespace>Company.Application.Tests</RootNamespace>\n  </PropertyGroup>\n</Project>\n',
+            );
+            const issues = namespaceIssuesOf(await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d`));
+            expect(issues.find((issue: any) => issue.testName === 'OrderServiceTests.cs').message)
+                .toContain('expected: Company.Application.Tests.Services');
+        });
+
+        it('should rewrite the namespace declaration with --fix', async () => {
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d --fix ${mapperTest} --journal-dir ${tempDir}/.tfsl-journal`);
+            const content = await fs.promises.readFile(mapperTest, 'utf-8');
+            expect(content).toContain('namespace Application.Tests.Mappers;');
+            expect(namespaceIssuesOf(await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d`))).toEqual([]);
+        });
+
+        it('should plan the namespace fix of a misplaced test on its moved content in a dry run', async () => {
+            const misplacedTest = `${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`;
+            const content = await fs.promises.readFile(misplacedTest, 'utf-8');
+            await fs.promises.writeFile(misplacedTest, content.replace(/namespace [\w.]+;/, 'namespace Totally.Wrong;'));
+
+            const result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --dry-run --plan-output ${tempDir}/plan.json`);
+            expect(result.stderr).not.toContain('Failed to fix');
+            const plan = JSON.parse(await fs.promises.readFile(`${tempDir}/plan.json`, 'utf-8'));
+            const movedTest = `${tempDir}/tests/Application.Tests/Services/UserServiceTests.cs`;
+            expect(plan.fixes).toContainEqual(expect.objectContaining({ action: 'move', from: misplacedTest, to: movedTest }));
+            const namespaceFix = plan.fixes.find((fix: any) => fix.action === 'rewrite' && fix.to === movedTest);
+            expect(namespaceFix.diff).toContain('-namespace Totally.Wrong;');
+            expect(namespaceFix.diff).toContain('+namespace Application.Tests.Services;');
+            expect(fs.existsSync(misplacedTest)).toBe(true);
+        });
+    });
+
+    describe('Scenario 16: references follow moves and renames', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const misplacedTest = `${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`;
+        const orderTest = `${tempDir}/tests/Application.Tests/Services/OrderServiceTests.cs`;
+        const referencingFile = `${tempDir}/tests/Application.Tests/Mappers/TestBase.cs`;
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            await fs.promises.writeFile(
+                referencingFile,
+                'using Application.Tests.Services.WrongLocation;\n\nnamespace Application.Tests.Mappers;\n\n' +
+                    'public class TestBase\n{\n    private readonly UserServiceTests _userTests = new UserServiceTests();\n' +
+                    '    private Application.Tests.Services.OrderServiceTest _orderTests;\n}\n',
+            );
+            const content = await fs.promises.readFile(orderTest, 'utf-8');
+            await fs.promises.writeFile(orderTest, content.replaceAll(/\bOrderServiceTests\b/g, 'OrderServiceTest'));
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should update usings of the old namespace after a move', async () => {
+            const result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --journal-dir ${tempDir}/.tfsl-journal`);
+            const content = await fs.promises.readFile(referencingFile, 'utf-8');
+            expect(content).toContain('using Application.Tests.Services;');
+            expect(content).not.toContain('WrongLocation');
+            expect(result.stdout).toMatch(/Updated reference in: .*Mappers\/TestBase\.cs/);
+        });
+
+        it('should update qualified references after a class rename', async () => {
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -n --fix ${orderTest} --journal-dir ${tempDir}/.tfsl-journal`);
+            const content = await fs.promises.readFile(referencingFile, 'utf-8');
+            expect(content).toContain('private Application.Tests.Services.OrderServiceTests _orderTests;');
+        });
+
+        it('should include the reference updates in the dry run plan', async () => {
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --dry-run --plan-output ${tempDir}/plan.json`);
+            const plan = JSON.parse(await fs.promises.readFile(`${tempDir}/plan.json`, 'utf-8'));
+            const rewrite = plan.fixes.find((fix: any) => fix.to === referencingFile);
+            expect(rewrite.action).toBe('rewrite');
+            expect(rewrite.diff).toContain('+using Application.Tests.Services;');
+            expect(await fs.promises.readFile(referencingFile, 'utf-8')).toContain('WrongLocation');
+        });
+
+        it('should plan the rewrites of a file referencing two moved tests one on top of the other', async () => {
+            const mapperTest = `${tempDir}/tests/Application.Tests/Mappers/Users/UserMapperTests.cs`;
+            const sharedFixture = `${tempDir}/tests/Application.Tests/SharedFixture.cs`;
+            await fs.promises.writeFile(mapperTest, 'namespace Application.Tests.Mappers.Users;\n\npublic class UserMapperTests\n{\n}\n');
+            await fs.promises.writeFile(
+                sharedFixture,
+                'using Application.Tests.Mappers.Users;\nusing Application.Tests.Services.WrongLocation;\n\nnamespace Application.Tests;\n\n' +
+                    'public class SharedFixture\n{\n    private UserMapperTests _mapperTests;\n    private UserServiceTests _userTests;\n}\n',
+            );
+
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --dry-run --plan-output ${tempDir}/plan.json`);
+            const plan = JSON.parse(await fs.promises.readFile(`${tempDir}/plan.json`, 'utf-8'));
+            const rewrites = plan.fixes.filter((fix: any) => fix.to === sharedFixture);
+            expect(rewrites).toHaveLength(2);
+            // The second rewrite keeps the first one's change
+            expect(rewrites[1].diff).not.toMatch(/^\+using Application\.Tests\.(Mappers\.Users|Services\.WrongLocation);/m);
+
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --journal-dir ${tempDir}/.tfsl-journal`);
+            const content = await fs.promises.readFile(sharedFixture, 'utf-8');
+            expect(content).toContain('using Application.Tests.Mappers;');
+            expect(content).toContain('using Application.Tests.Services;');
+        });
+    });
+
+    describe('Scenario 17: projects from the solution', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const testProjectDir = `${tempDir}/tests/Modules/Billing/Billing.Api.Tests`;
+        const misplacedTest = `${testProjectDir}/InvoiceServiceTests.cs`;
+        const writeFile = async (filePath: string, content: string) => {
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, content);
+        };
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await writeFile(
+                `${tempDir}/Repo.sln`,
+                'Microsoft Visual Studio Solution File, Format Version 12.00\n' +
+                    'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Billing.Api", "src\\Modules\\Billing\\Billing.Api\\Billing.Api.csproj", "{11111111-1111-1111-1111-111111111111}"\nEndProject\n' +
+                    'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Billing.Api.Tests", "tests\\Modules\\Billing\\Billing.Api.Tests\\Billing.Api.Tests.csproj", "{22222222-2222-2222-2222-222222222222}"\nEndProject\n',
+            );
+            await writeFile(`${tempDir}/src/Modules/Billing/Billing.Api/Billing.Api.csproj`, '<Project Sdk="Microsoft.NET.Sdk"></Project>\n');
+            await writeFile(
+                `${testProjectDir}/Billing.Api.Tests.csproj`,
+                '<Project Sdk="Microsoft.NET.Sdk">\n  <ItemGroup>\n    <ProjectReference Include="..\\..\\..\\..\\src\\Modules\\Billing\\Billing.Api\\Billing.Api.csproj" />\n  </ItemGroup>\n</Project>\n',
+            );
+            await writeFile(`${tempDir}/src/Modules/Billing/Billing.Api/Controllers/InvoiceController.cs`, 'namespace Billing.Api.Controllers;\n\npublic class InvoiceController\n{\n}\n');
+            await writeFile(`${tempDir}/src/Modules/Billing/Billing.Api/Services/InvoiceService.cs`, 'namespace Billing.Api.Services;\n\npublic class InvoiceService\n{\n}\n');
+            await writeFile(`${tempDir}/src/Modules/Billing/Billing.Api/Services/TaxService.cs`, 'namespace Billing.Api.Services;\n\npublic class TaxService\n{\n}\n');
+            await writeFile(`${testProjectDir}/Controllers/InvoiceControllerTests.cs`, 'namespace Billing.Api.Tests.Controllers;\n\npublic class InvoiceControllerTests\n{\n}\n');
+            await writeFile(misplacedTest, 'namespace Billing.Api.Tests;\n\npublic class InvoiceServiceTests\n{\n}\n');
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should compute expected paths relative to the referencing test project', async () => {
+            const result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n --solution ${tempDir}/Repo.sln`);
+            expect(result.jsonOutput.filesWithIssues).toHaveLength(1);
+            const [issue] = result.jsonOutput.filesWithIssues;
+            expect(issue.ruleId).toBe('invalid-directory-structure');
+            expect(issue.currentTestFile).toBe('./tests/Modules/Billing/Billing.Api.Tests/InvoiceServiceTests.cs');
+            expect(issue.expectedTestFile).toBe('./tests/Modules/Billing/Billing.Api.Tests/Services/InvoiceServiceTests.cs');
+        });
+
+        it('should expect missing tests in the referencing test project', async () => {
+            const result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -m --solution ${tempDir}/Repo.sln`);
+            const missing = result.jsonOutput.filesWithIssues.filter((issue: any) => issue.ruleId === 'missing-test');
+            expect(missing.map((issue: any) => issue.testName)).toEqual(['TaxServiceTests.cs']);
+        });
+
+        it('should move the test and update its namespace with --all', async () => {
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --solution ${tempDir}/Repo.sln --journal-dir ${tempDir}/.tfsl-journal`);
+            const content = await fs.promises.readFile(`${testProjectDir}/Services/InvoiceServiceTests.cs`, 'utf-8');
+            expect(content).toContain('namespace Billing.Api.Tests.Services;');
+            expect(fs.existsSync(misplacedTest)).toBe(false);
+        });
+
+        it('should fail when the solution cannot be read', async () => {
+            const result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d --solution ${tempDir}/Missing.sln`);
+            expect(result.exitCode).not.toBe(0);
+            expect(result.stderr).toContain('Failed to read solution');
+        });
+    });
+
+    describe('Scenario 18: test project flavours', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const configPath = `${tempDir}/.testfilestructurelintrc.json`;
+        const flavours = [
+            { name: 'unit', suffix: '.Tests' },
+            {
+                name: 'integration',
+                suffix: '.IntegrationTests',
+                rules: { 'missing-test': 'off', 'invalid-directory-structure': { options: { allowFlatLayout: true } } },
+            },
+        ];
+
+        beforeAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            const integrationDir = `${tempDir}/tests/Application.IntegrationTests`;
+            await fs.promises.mkdir(`${integrationDir}/Wrong`, { recursive: true });
+            await fs.promises.writeFile(`${integrationDir}/UserServiceTests.cs`, 'namespace Application.IntegrationTests;\n\npublic class UserServiceTests\n{\n}\n');
+            await fs.promises.writeFile(`${integrationDir}/Wrong/OrderServiceTests.cs`, 'namespace Application.IntegrationTests.Wrong;\n\npublic class OrderServiceTests\n{\n}\n');
+            await fs.promises.writeFile(configPath, JSON.stringify({ srcRoot: 'src', testRoot: 'tests', testProjectFlavours: flavours }));
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should ignore other test projects without flavours', async () => {
+            const result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n`);
+            expect(result.jsonOutput.summary.totalFilesWithIssues).toBe(7);
+            expect(result.jsonOutput.filesWithIssues.every((issue: any) => issue.flavour === undefined)).toBe(true);
+        });
+
+        it('should analyze every flavour with its own rules', async () => {
+            const result = await executeCLI(`--config ${configPath} -d -n -m`);
+            const integrationIssues = result.jsonOutput.filesWithIssues.filter((issue: any) => issue.flavour === 'integration');
+            // The flat UserServiceTests is fine, the test in an unrelated folder is not
+            expect(integrationIssues.map((issue: any) => [issue.testName, issue.ruleId])).toEqual([
+                ['OrderServiceTests.cs', 'invalid-directory-structure'],
+            ]);
+            expect(integrationIssues[0].expectedTestFile).toBe('./tests/Application.IntegrationTests/Services/OrderServiceTests.cs');
+            expect(result.stdout).toContain('OrderServiceTests.cs (integration)');
+        });
+
+        it('should only check missing tests of the flavours that enable it', async () => {
+            const result = await executeCLI(`--config ${configPath} -m`);
+            const missing = result.jsonOutput.filesWithIssues.filter((issue: any) => issue.ruleId === 'missing-test');
+            expect(missing.length).toBeGreaterThan(0);
+            expect(missing.every((issue: any) => issue.flavour === 'unit')).toBe(true);
+        });
+
+        it('should reject flavours without a prefix or a suffix', async () => {
+            const invalidConfig = `${tempDir}/invalid.json`;
+            await fs.promises.writeFile(invalidConfig, JSON.stringify({ testProjectFlavours: [{ name: 'unit' }] }));
+            const result = await executeCLI(`--config ${invalidConfig}`);
+            expect(result.stderr).toContain('"testProjectFlavours[0]" needs a prefix or a suffix');
+        });
+
+        it('should list fixed baseline entries of rules only a flavour enables', async () => {
+            const flavourConfig = `${tempDir}/flavour-rules.json`;
+            await fs.promises.writeFile(flavourConfig, JSON.stringify({
+                srcRoot: 'src',
+                testRoot: 'tests',
+                testProjectFlavours: [{ name: 'unit', suffix: '.Tests', rules: { 'missing-test': { enabled: true } } }],
+            }));
+            const args = `--config ${flavourConfig} --baseline ./${tempDir}/flavour-baseline.json`;
+            await executeCLI(`${args} --update-baseline`);
+            await fs.promises.rm(`${tempDir}/src/Application/Services/UpercaseXYZService.cs`);
+
+            const result = await executeCLI(args);
+            expect(result.jsonOutput.baseline.fixed.map((entry: any) => [entry.testName, entry.ruleId])).toEqual([
+                ['UpercaseXYZServiceTests.cs', 'missing-test'],
+            ]);
+        });
+    });
+
+    describe('Scenario 19: prefix-style and mapped test project names', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const directoryIssuesOf = (result: any) =>
+            result.jsonOutput.filesWithIssues
+                .filter((issue: any) => issue.ruleId === 'invalid-directory-structure')
+                .map((issue: any) => [issue.testName, issue.expectedTestFile]);
+        let expectedIssues: any[];
+
+        beforeAll(async () => {
+            const result = await executeCLI('-s ./test-data/src/ -t ./test-data/tests/ -d');
+            expectedIssues = directoryIssuesOf(result);
+        });
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should match test projects by prefix', async () => {
+            await fs.promises.rename(`${tempDir}/tests/Application.Tests`, `${tempDir}/tests/Tests.Application`);
+            const result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d --test-project-prefix Tests. --test-project-suffix ""`);
+            expect(directoryIssuesOf(result)).toEqual(
+                expectedIssues.map(([testName, expected]) => [testName, expected?.replace('Application.Tests', 'Tests.Application')]),
+            );
+        });
+
+        it('should match explicitly mapped test projects and move tests into them', async () => {
+            await fs.promises.rename(`${tempDir}/tests/Application.Tests`, `${tempDir}/tests/AppRegression`);
+            const configPath = `${tempDir}/.testfilestructurelintrc.json`;
+            await fs.promises.writeFile(configPath, JSON.stringify({ testProjectNames: { Application: 'AppRegression' } }));
+
+            const result = await executeCLI(`--config ${configPath} -s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d`);
+            expect(directoryIssuesOf(result)).toEqual(
+                expectedIssues.map(([testName, expected]) => [testName, expected?.replace('Application.Tests', 'AppRegression')]),
+            );
+
+            await executeCLI(`--config ${configPath} -s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --journal-dir ${tempDir}/.tfsl-journal`);
+            expect(fs.existsSync(`${tempDir}/tests/AppRegression/Services/UserServiceTests.cs`)).toBe(true);
+        });
+    });
+
+    describe('Scenario 20: orphaned tests and repair suggestions', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const services = `${tempDir}/src/Application/Services`;
+        const userServiceTest = `${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`;
+        const git = (command: string) =>
+            execAsync(`git -c user.name=test -c user.email=test@example.com ${command}`, { cwd: tempDir });
+        const orphansOf = (result: any) =>
+            result.jsonOutput.filesWithIssues.filter((issue: any) => issue.ruleId === 'orphaned-test');
+        const analyze = () => executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n`);
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should report tests without a source as orphaned, not as misplaced', async () => {
+            const result = await analyze();
+            expect(orphansOf(result).map((issue: any) => issue.testName).sort()).toEqual([
+                'ProductMapperTests.cs',
+                'ToBeIgnoredTests.cs',
+                'WrongNameTests.cs',
+            ]);
+            expect(result.jsonOutput.summary.errorCounts.orphanedTests).toBe(3);
+            expect(result.stdout).toContain('Orphaned tests: 3');
+        });
+
+        it('should suggest sources with a similar name', async () => {
+            await fs.promises.rename(`${services}/UserService.cs`, `${services}/UserServices.cs`);
+            const orphan = orphansOf(await analyze()).find((issue: any) => issue.testName === 'UserServiceTests.cs');
+            expect(orphan.suggestions[0]).toEqual({
+                sourceFile: './src/Application/Services/UserServices.cs',
+                expectedTestFile: './tests/Application.Tests/Services/UserServicesTests.cs',
+                reason: 'similar-name',
+                similarity: 0.92,
+            });
+        });
+
+        it('should suggest the new name of sources renamed in git', async () => {
+            await git('init -q');
+            await git('add -A');
+            await git('commit -q -m init');
+            await git('mv src/Application/Services/UserService.cs src/Application/Services/AccountService.cs');
+            await git('commit -q -m rename');
+
+            const result = await analyze();
+            const orphan = orphansOf(result).find((issue: any) => issue.testName === 'UserServiceTests.cs');
+            expect(orphan.suggestions[0]).toMatchObject({
+                sourceFile: './src/Application/Services/AccountService.cs',
+                reason: 'git-rename',
+            });
+            expect(result.stdout).toContain('Maybe:    ./src/Application/Services/AccountService.cs (renamed in git)');
+        });
+
+        it('should apply the top suggestion when fixing an orphaned test', async () => {
+            await fs.promises.rename(`${services}/UserService.cs`, `${services}/AccountService.cs`);
+            await fs.promises.writeFile(
+                `${services}/UserServise.cs`,
+                'namespace Application.Services;\n\npublic class UserServise { }\n',
+            );
+
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -n --fix ${userServiceTest} --journal-dir ${tempDir}/.tfsl-journal`);
+            const fixedTest = `${tempDir}/tests/Application.Tests/Services/UserServiseTests.cs`;
+            expect(fs.existsSync(userServiceTest)).toBe(false);
+            const content = await fs.promises.readFile(fixedTest, 'utf-8');
+            expect(content).toContain('class UserServiseTests');
+            expect(content).not.toContain('WrongLocation');
+            expect(orphansOf(await analyze()).map((issue: any) => issue.testName)).not.toContain('UserServiseTests.cs');
+        });
+    });
+
+    describe('Scenario 21: duplicate source names resolved by the test content', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const handlerTests = `${tempDir}/tests/Application.Tests/Handlers/Bus/CommandHandlers/HandlerTests.cs`;
+        const misplacedTest = `${tempDir}/tests/Application.Tests/Handlers/HandlerTests.cs`;
+        const analyze = () => executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d`);
+        const handlerIssueOf = (result: any) =>
+            result.jsonOutput.filesWithIssues.find(
+                (issue: any) => issue.currentTestFile === './tests/Application.Tests/Handlers/HandlerTests.cs',
+            );
+        const writeMisplacedTest = (lines: string[]) =>
+            fs.promises.writeFile(misplacedTest, lines.join('\n'));
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            for (const vehicle of ['Car', 'Bus', 'Truck']) {
+                await fs.promises.writeFile(
+                    `${tempDir}/src/Application/Handlers/${vehicle}/CommandHandlers/Handler.cs`,
+                    `namespace Application.Handlers.${vehicle}.CommandHandlers;\n\npublic class Handler { }\n`,
+                );
+            }
+            await fs.promises.rm(handlerTests);
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should pick the source imported by a using with high confidence', async () => {
+            await writeMisplacedTest([
+                'using Application.Handlers.Bus.CommandHandlers;',
+                'namespace Application.Tests.Handlers;',
+                'public class HandlerTests { private readonly Handler _handler = new(); }',
+            ]);
+            const result = await analyze();
+            const issue = handlerIssueOf(result);
+            expect(issue.ruleId).toBe('invalid-directory-structure');
+            expect(issue.expectedTestFile).toBe('./tests/Application.Tests/Handlers/Bus/CommandHandlers/HandlerTests.cs');
+            expect(issue.sourceResolution).toEqual({ confidence: 'high', reason: 'using' });
+            expect(result.stdout).toContain('Resolved: by a using directive, high confidence');
+        });
+
+        it('should pick the source named by its qualified name', async () => {
+            await writeMisplacedTest([
+                'namespace Application.Tests.Handlers;',
+                'public class HandlerTests { private readonly Application.Handlers.Truck.CommandHandlers.Handler _handler = new(); }',
+            ]);
+            const issue = handlerIssueOf(await analyze());
+            expect(issue.sourceFiles).toBe('./src/Application/Handlers/Truck/CommandHandlers/Handler.cs');
+            expect(issue.sourceResolution).toEqual({ confidence: 'high', reason: 'qualified-name' });
+        });
+
+        it('should move high confidence resolutions with --fix', async () => {
+            await writeMisplacedTest([
+                'using Application.Handlers.Bus.CommandHandlers;',
+                'namespace Application.Tests.Handlers;',
+                'public class HandlerTests { private readonly Handler _handler = new(); }',
+            ]);
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d --fix ${misplacedTest} --journal-dir ${tempDir}/.tfsl-journal`);
+            expect(fs.existsSync(handlerTests)).toBe(true);
+            expect(fs.existsSync(misplacedTest)).toBe(false);
+        });
+
+        it('should report but not fix medium confidence resolutions', async () => {
+            // Only the namespace of the Bus folder hints at the source
+            await writeMisplacedTest([
+                'namespace Application.Tests.Handlers.Bus.CommandHandlers;',
+                'public class HandlerTests { }',
+            ]);
+            const issue = handlerIssueOf(await analyze());
+            expect(issue.expectedTestFile).toBe('./tests/Application.Tests/Handlers/Bus/CommandHandlers/HandlerTests.cs');
+            expect(issue.sourceResolution).toEqual({ confidence: 'medium', reason: 'mirrored-namespace' });
+
+            await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a --journal-dir ${tempDir}/.tfsl-journal`);
+            expect(fs.existsSync(misplacedTest)).toBe(true);
+            expect(fs.existsSync(handlerTests)).toBe(false);
+        });
+
+        it('should stay ambiguous when several sources fit equally well', async () => {
+            await writeMisplacedTest([
+                'using Application.Handlers.Bus.CommandHandlers;',
+                'using Application.Handlers.Car.CommandHandlers;',
+                'namespace Application.Tests.Handlers;',
+                'public class HandlerTests { private readonly Handler _handler = new(); }',
+            ]);
+            const issue = handlerIssueOf(await analyze());
+            expect(issue.message).toContain('Multiple matching source files found (3)');
+            expect(issue.sourceResolution).toBeUndefined();
+        });
+    });
+
+    describe('Scenario 22: split test files', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const services = `${tempDir}/tests/Application.Tests/Services`;
+        const splitTests = '--split-tests "{Source}.{Topic}Tests,{Source}{Topic}Tests"';
+        const analyze = (args: string) => executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ ${args}`);
+        const issuesOf = (result: any, testName: string) =>
+            result.jsonOutput.filesWithIssues.filter((issue: any) => issue.testName === testName);
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            await fs.promises.writeFile(
+                `${services}/OrderService.CancelTests.cs`,
+                'namespace Application.Tests.Services;\n\npublic class OrderServiceCancelTests { }\n',
+            );
+            await fs.promises.mkdir(`${services}/Refunds`);
+            await fs.promises.writeFile(
+                `${services}/Refunds/OrderServiceRefundTests.cs`,
+                'namespace Application.Tests.Services.Refunds;\n\npublic class OrderServiceRefundTests { }\n',
+            );
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should report split test files as orphaned without patterns', async () => {
+            const result = await analyze('-d');
+            expect(issuesOf(result, 'OrderService.CancelTests.cs').map((issue: any) => issue.ruleId)).toEqual(['orphaned-test']);
+            expect(issuesOf(result, 'OrderServiceRefundTests.cs').map((issue: any) => issue.ruleId)).toEqual(['orphaned-test']);
+        });
+
+        it('should map split test files to their source', async () => {
+            const result = await analyze(`-d -n ${splitTests}`);
+            expect(issuesOf(result, 'OrderService.CancelTests.cs')).toEqual([]);
+            expect(issuesOf(result, 'OrderServiceRefundTests.cs').map((issue: any) => [issue.ruleId, issue.expectedTestFile])).toEqual([
+                ['invalid-directory-structure', './tests/Application.Tests/Services/OrderServiceRefundTests.cs'],
+            ]);
+        });
+
+        it('should count a source as tested by any of its split test files', async () => {
+            await fs.promises.rm(`${services}/OrderServiceTests.cs`);
+            const missingOrderService = (result: any) =>
+                result.jsonOutput.filesWithIssues.some((issue: any) => issue.testName === 'OrderServiceTests.cs');
+
+            expect(missingOrderService(await analyze('-m'))).toBe(true);
+            expect(missingOrderService(await analyze(`-m ${splitTests}`))).toBe(false);
+        });
+
+        it('should only match existing source names', async () => {
+            await fs.promises.writeFile(`${services}/PaymentService.RetryTests.cs`, 'public class PaymentServiceRetryTests { }\n');
+            const result = await analyze(`-d ${splitTests}`);
+            expect(issuesOf(result, 'PaymentService.RetryTests.cs').map((issue: any) => issue.ruleId)).toEqual(['orphaned-test']);
+        });
+
+        it('should reject patterns without both placeholders', async () => {
+            const result = await analyze('-d --split-tests "{Source}Tests"');
+            expect(result.exitCode).not.toBe(0);
+            expect(result.stderr).toContain('"{Source}Tests" must contain {Source} and {Topic} once.');
+        });
+    });
+
+    describe('Scenario 23: missing test exemptions', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const sources = `${tempDir}/src/Application/Contracts`;
+        const configPath = `${tempDir}/.testfilestructurelintrc.json`;
+        const files: Record<string, string> = {
+            'IOrderRepository.cs': 'namespace Application.Contracts;\npublic interface IOrderRepository { }\n',
+            'OrderStatus.cs': 'namespace Application.Contracts;\npublic enum OrderStatus { New, Paid }\n',
+            'OrderDto.cs': 'namespace Application.Contracts;\npublic record OrderDto(int Id);\npublic enum OrderKind { A }\n',
+            'ClockAdapter.cs': 'namespace Application.Contracts;\n[ExcludeFromCodeCoverage]\npublic sealed class ClockAdapter { }\n',
+            'Generated.cs': '// <auto-generated>\n//   by a tool\n// </auto-generated>\nnamespace Application.Contracts;\npublic class Generated { }\n',
+            'Migrations/20240101_Init.cs': 'namespace Application.Contracts.Migrations;\npublic class Init { }\n',
+            'OrderPolicy.cs': 'namespace Application.Contracts;\npublic class OrderPolicy { public enum Mode { A } }\n',
+        };
+        const missingOf = (result: any) =>
+            result.jsonOutput.filesWithIssues
+                .filter((issue: any) => issue.ruleId === 'missing-test' && issue.testName !== 'UpercaseXYZServiceTests.cs')
+                .map((issue: any) => issue.testName);
+
+        beforeAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            await fs.promises.mkdir(`${sources}/Migrations`, { recursive: true });
+            for (const [name, content] of Object.entries(files)) {
+                await fs.promises.writeFile(`${sources}/${name}`, content);
+            }
+            await fs.promises.writeFile(configPath, JSON.stringify({
+                srcRoot: 'src',
+                testRoot: 'tests',
+                rules: { 'missing-test': { options: { exemptPaths: ['**/Migrations/**'] } } },
+            }));
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should not expect tests for sources that need none', async () => {
+            const result = await executeCLI(`--config ${configPath} -m`);
+            expect(missingOf(result)).toEqual(['OrderPolicyTests.cs']);
+            expect(result.stdout).toContain('Exempt from missing tests: 6');
+        });
+
+        it('should list every exemption in the JSON summary', async () => {
+            const result = await executeCLI(`--config ${configPath} -m`);
+            const exemptions = result.jsonOutput.summary.missingTestExemptions;
+            expect(exemptions.total).toBe(6);
+            expect(exemptions.byReason).toEqual({
+                'path-pattern': 1,
+                'auto-generated': 1,
+                'exclude-from-code-coverage': 1,
+                'type-kinds': 3,
+            });
+            expect(exemptions.files).toContainEqual({
+                sourceFile: './src/Application/Contracts/Migrations/20240101_Init.cs',
+                reason: 'path-pattern',
+                detail: '**/Migrations/**',
+            });
+            expect(exemptions.files).toContainEqual({
+                sourceFile: './src/Application/Contracts/OrderDto.cs',
+                reason: 'type-kinds',
+                detail: 'record, enum',
+            });
+        });
+
+        it('should expect tests again when the exemptions are turned off', async () => {
+            const strictConfig = `${tempDir}/strict.json`;
+            await fs.promises.writeFile(strictConfig, JSON.stringify({
+                srcRoot: 'src',
+                testRoot: 'tests',
+                rules: {
+                    'missing-test': {
+                        options: { exemptTypeKinds: [], exemptExcludedFromCoverage: false, exemptAutoGenerated: false },
+                    },
+                },
+            }));
+            const result = await executeCLI(`--config ${strictConfig} -m`);
+            expect(missingOf(result)).toHaveLength(7);
+            expect(result.jsonOutput.summary.missingTestExemptions.total).toBe(0);
+        });
+    });
+
+    describe('Scenario 24: ignore patterns and ignore files', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const roots = `-s ./${tempDir}/src/ -t ./${tempDir}/tests/`;
+        const testNamesOf = (result: any) =>
+            result.jsonOutput.filesWithIssues.map((issue: any) => issue.testName);
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            await fs.promises.mkdir(`${tempDir}/src/Legacy/Keep`, { recursive: true });
+            await fs.promises.writeFile(`${tempDir}/src/Legacy/Old.cs`, 'public class Old { }\n');
+            await fs.promises.writeFile(`${tempDir}/src/Legacy/Keep/Kept.cs`, 'public class Kept { }\n');
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should ignore source paths and re-include negated ones', async () => {
+            const result = await executeCLI(`${roots} -m --ignore-source "${tempDir}/src/Legacy/**,!${tempDir}/src/Legacy/Keep/**"`);
+            expect(testNamesOf(result)).toContain('KeptTests.cs');
+            expect(testNamesOf(result)).not.toContain('OldTests.cs');
+        });
+
+        it('should keep the ignore patterns of both sides apart', async () => {
+            const result = await executeCLI(`${roots} -d -m --ignore-tests "WrongLocation/"`);
+            const userServiceIssues = result.jsonOutput.filesWithIssues.filter(
+                (issue: any) => issue.testName === 'UserServiceTests.cs',
+            );
+            // The ignored test no longer counts, so its source is missing one
+            expect(userServiceIssues.map((issue: any) => issue.ruleId)).toEqual(['missing-test']);
+            expect(testNamesOf(result)).toContain('OldTests.cs');
+        });
+
+        it('should resolve config file patterns relative to the config file', async () => {
+            const configPath = `${tempDir}/.testfilestructurelintrc.json`;
+            await fs.promises.writeFile(configPath, JSON.stringify({
+                srcRoot: 'src',
+                testRoot: 'tests',
+                sourceIgnorePatterns: ['src/Legacy/**', '**/*{Xyz,XYZ}*'],
+            }));
+            const result = await executeCLI(`--config ${configPath} -m`);
+            expect(testNamesOf(result)).not.toContain('OldTests.cs');
+            expect(testNamesOf(result)).not.toContain('UpercaseXYZServiceTests.cs');
+        });
+
+        it('should match patterns starting with **/ below roots outside the config folder', async () => {
+            await fs.promises.mkdir(`${tempDir}/config`, { recursive: true });
+            const configPath = `${tempDir}/config/.testfilestructurelintrc.json`;
+            await fs.promises.writeFile(configPath, JSON.stringify({
+                srcRoot: '../src',
+                testRoot: '../tests',
+                sourceIgnorePatterns: ['**/Legacy/**'],
+            }));
+            const result = await executeCLI(`--config ${configPath} -m`);
+            expect(testNamesOf(result)).not.toContain('OldTests.cs');
+            expect(testNamesOf(result)).not.toContain('KeptTests.cs');
+        });
+
+        it('should read .tfslignore files', async () => {
+            await fs.promises.writeFile(`${tempDir}/tests/.tfslignore`, '# mappers are checked elsewhere\nMappers/\n');
+            const result = await executeCLI(`${roots} -d`);
+            expect(testNamesOf(result)).not.toContain('ProductMapperTests.cs');
+            expect(testNamesOf(result)).not.toContain('UserMapperTests.cs');
+            expect(testNamesOf(result)).toContain('UserServiceTests.cs');
+        });
+
+        it('should respect .gitignore only with --gitignore', async () => {
+            await execAsync('git init -q', { cwd: tempDir });
+            await fs.promises.writeFile(`${tempDir}/.gitignore`, 'tests/Application.Tests/Services/WrongLocation/\n');
+
+            expect(testNamesOf(await executeCLI(`${roots} -d`))).toContain('UserServiceTests.cs');
+            expect(testNamesOf(await executeCLI(`${roots} -d --gitignore`))).not.toContain('UserServiceTests.cs');
+        });
+
+        it('should read ignore files in folders below the roots, scoped to their folder', async () => {
+            await execAsync('git init -q', { cwd: tempDir });
+            await fs.promises.writeFile(`${tempDir}/src/Application/Calculation/LegacyCalc.cs`, 'public class LegacyCalc { }\n');
+            await fs.promises.mkdir(`${tempDir}/tests/Application.Tests/X`, { recursive: true });
+            await fs.promises.writeFile(`${tempDir}/tests/Application.Tests/X/LegacyCalcTests.cs`, 'public class LegacyCalcTests { }\n');
+            await fs.promises.writeFile(`${tempDir}/tests/Application.Tests/X/.gitignore`, 'LegacyCalcTests.cs\nUserServiceTests.cs\n');
+
+            const result = await executeCLI(`${roots} -d -m --gitignore`);
+            const legacyIssues = result.jsonOutput.filesWithIssues.filter(
+                (issue: any) => issue.testName === 'LegacyCalcTests.cs',
+            );
+            // The ignored test is not seen, so its source is missing one
+            expect(legacyIssues.map((issue: any) => issue.ruleId)).toEqual(['missing-test']);
+            // Files outside the folder of the ignore file are not affected
+            expect(testNamesOf(result)).toContain('UserServiceTests.cs');
+        });
+
+        it('should not read ignored folders a negated pattern cannot reach into', async () => {
+            // The ignore file inside obj/ would re-include the test if the folder were read
+            await fs.promises.mkdir(`${tempDir}/tests/Application.Tests/obj`, { recursive: true });
+            await fs.promises.writeFile(`${tempDir}/tests/Application.Tests/obj/GeneratedTests.cs`, 'public class GeneratedTests { }\n');
+            await fs.promises.writeFile(`${tempDir}/tests/Application.Tests/obj/.tfslignore`, '!*.cs\n');
+
+            const result = await executeCLI(`${roots} -d -m --ignore-tests "${tempDir}/tests/Other/**,!${tempDir}/tests/Other/Keep/**"`);
+            expect(testNamesOf(result)).not.toContain('GeneratedTests.cs');
+        });
+    });
+
+    describe('Scenario 25: one directory walk for source and test files', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const roots = `-s ./${tempDir}/src/ -t ./${tempDir}/tests/`;
+        const testNamesOf = (result: any) =>
+            result.jsonOutput.filesWithIssues.map((issue: any) => issue.testName);
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should skip hidden folders', async () => {
+            await fs.promises.mkdir(`${tempDir}/src/Application/.vs`, { recursive: true });
+            await fs.promises.writeFile(`${tempDir}/src/Application/.vs/Hidden.cs`, 'public class Hidden { }\n');
+            const result = await executeCLI(`${roots} -m`);
+            expect(testNamesOf(result)).not.toContain('HiddenTests.cs');
+        });
+
+        it('should include symlinked source files', async () => {
+            await fs.promises.mkdir(`${tempDir}/shared`, { recursive: true });
+            await fs.promises.writeFile(`${tempDir}/shared/Linked.cs`, 'public class Linked { }\n');
+            await fs.promises.symlink(
+                path.resolve(`${tempDir}/shared/Linked.cs`),
+                `${tempDir}/src/Application/Services/Linked.cs`,
+            );
+            const result = await executeCLI(`${roots} -m`);
+            expect(testNamesOf(result)).toContain('LinkedTests.cs');
+        });
+    });
+
+    describe('Scenario 26: analysis cache', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const args = `-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -n --cache-dir ./${tempDir}/cache`;
+        const orderServiceTests = `${tempDir}/tests/Application.Tests/Services/OrderServiceTests.cs`;
+        const cacheCountsOf = (result: any) => {
+            const match = /Cache: (\d+) of (\d+) files unchanged/.exec(result.stdout);
+            return match ? { reused: Number(match[1]), total: Number(match[2]) } : null;
+        };
+        const issuesOf = (result: any) =>
+            result.jsonOutput.filesWithIssues.map((issue: any) => `${issue.testName}:${issue.ruleId}`);
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should reuse what it read from unchanged files on the next run', async () => {
+            const first = await executeCLI(args);
+            const second = await executeCLI(args);
+
+            expect(cacheCountsOf(first)?.reused).toBe(0);
+            expect(cacheCountsOf(second)?.total).toBeGreaterThan(0);
+            expect(cacheCountsOf(second)?.reused).toBe(cacheCountsOf(second)?.total);
+            expect(issuesOf(second)).toEqual(issuesOf(first));
+        });
+
+        it('should read changed files again', async () => {
+            await executeCLI(args);
+            const content = await fs.promises.readFile(orderServiceTests, 'utf-8');
+            await fs.promises.writeFile(orderServiceTests, content.replace('class OrderServiceTests', 'class OrderServiceSpec'));
+
+            const result = await executeCLI(args);
+            const counts = cacheCountsOf(result)!;
+            expect(counts.reused).toBe(counts.total - 1);
+            expect(issuesOf(result)).toContain('OrderServiceTests.cs:class-name-mismatch');
+        });
+
+        it('should start over when the options change', async () => {
+            await executeCLI(args);
+            const result = await executeCLI(`${args} -d`);
+            expect(cacheCountsOf(result)?.reused).toBe(0);
+        });
+
+        it('should neither read nor write a cache with --no-cache', async () => {
+            const result = await executeCLI(`${args} --no-cache`);
+            expect(cacheCountsOf(result)).toBeNull();
+            expect(fs.existsSync(`${tempDir}/cache`)).toBe(false);
+        });
+
+        it('should clear the cache with --clear-cache', async () => {
+            await executeCLI(args);
+            const result = await executeCLI(`${args} --clear-cache`);
+            expect(result.stdout).toContain('Cache cleared');
+            expect(cacheCountsOf(result)?.reused).toBe(0);
+        });
+    });
+
+    describe('Scenario 27: findings about changed files only', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        const roots = `-s ./${tempDir}/src/ -t ./${tempDir}/tests/`;
+        const git = (args: string) =>
+            execAsync(`git -c user.name=test -c user.email=test@example.com ${args}`, { cwd: tempDir });
+        const testNamesOf = (result: any) =>
+            result.jsonOutput.filesWithIssues.map((issue: any) => issue.testName);
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+            await git('init -q');
+            await git('add -A');
+            await git('commit -q -m base');
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should report nothing when nothing changed', async () => {
+            const result = await executeCLI(`${roots} -d -m --changed-since HEAD`);
+            expect(result.stdout).toContain('Reporting on 0 files changed since HEAD');
+            expect(result.jsonOutput.filesWithIssues).toEqual([]);
+        });
+
+        it('should report the misplaced test of a moved source and the rename behind it', async () => {
+            await fs.promises.mkdir(`${tempDir}/src/Application/Orders`, { recursive: true });
+            await git('mv src/Application/Services/OrderService.cs src/Application/Orders/OrderService.cs');
+
+            const result = await executeCLI(`${roots} -d --changed-since HEAD`);
+            expect(testNamesOf(result)).toEqual(['OrderServiceTests.cs']);
+            const [issue] = result.jsonOutput.filesWithIssues;
+            expect(issue.ruleId).toBe('invalid-directory-structure');
+            expect(issue.sourceRenamedFrom).toContain('Services/OrderService.cs');
+            expect(result.stdout).toContain('🔀 Renamed:');
+        });
+
+        it('should limit the findings to staged files with --staged', async () => {
+            await fs.promises.writeFile(`${tempDir}/src/Application/Services/NewService.cs`, 'public class NewService { }\n');
+
+            expect(testNamesOf(await executeCLI(`${roots} -m --changed-since HEAD`))).toEqual(['NewServiceTests.cs']);
+            expect(testNamesOf(await executeCLI(`${roots} -m --staged`))).toEqual([]);
+            await git('add -A');
+            expect(testNamesOf(await executeCLI(`${roots} -m --staged`))).toEqual(['NewServiceTests.cs']);
+        });
+
+        it('should keep the baseline entries of unchanged files', async () => {
+            const baselineArgs = `${roots} -d --baseline ./${tempDir}/baseline.json`;
+            const readBaseline = async () => JSON.parse(await fs.promises.readFile(`${tempDir}/baseline.json`, 'utf-8'));
+            await executeCLI(`${baselineArgs} --update-baseline`);
+            const entries = (await readBaseline()).length;
+            await fs.promises.appendFile(`${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`, '\n// edited\n');
+
+            const scopedRun = await executeCLI(`${baselineArgs} --changed-since HEAD`);
+            expect(scopedRun.exitCode).toBe(0);
+            expect(scopedRun.jsonOutput.baseline.fixed).toEqual([]);
+
+            await executeCLI(`${baselineArgs} --changed-since HEAD --update-baseline`);
+            expect((await readBaseline()).length).toBe(entries);
+            const fullRun = await executeCLI(baselineArgs);
+            expect(fullRun.exitCode).toBe(0);
+            expect(fullRun.jsonOutput.filesWithIssues).toEqual([]);
+        });
+
+        it('should fail on an unknown ref', async () => {
+            const result = await executeCLI(`${roots} -d --changed-since no-such-ref`);
+            expect(result.exitCode).not.toBe(0);
+            expect(result.stdout + result.stderr).toContain('Failed to list the files changed since no-such-ref');
+        });
+    });
+
+    describe('Scenario 28: watch mode', () => {
+        const tempDir = `test-data-temp-${Date.now()}`;
+        let watcher: ChildProcess | undefined;
+        let output = '';
+
+        const startWatch = (args: string) => {
+            output = '';
+            watcher = spawn('node', ['./dist/index.js', '-s', `./${tempDir}/src/`, '-t', `./${tempDir}/tests/`, ...args.split(' '), '-w']);
+            watcher.stdout!.on('data', (data) => (output += data));
+            watcher.stderr!.on('data', (data) => (output += data));
+        };
+        const waitForOutput = async (text: string, timeoutMs = 10000) => {
+            const start = Date.now();
+            while (!output.includes(text)) {
+                if (Date.now() - start > timeoutMs) {
+                    throw new Error(`Timed out waiting for "${text}" in:\n${output}`);
+                }
+                await new Promise((resolve) => setTimeout(resolve, 50));
+            }
+        };
+
+        beforeEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+            await fs.promises.cp('test-data', tempDir, { recursive: true });
+        });
+
+        afterEach(() => {
+            watcher?.kill();
+            watcher = undefined;
+        });
+
+        afterAll(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it('should report the findings a moved source adds', async () => {
+            startWatch('-d -m --no-cache');
+            await waitForOutput('Watching for changes');
+
+            await fs.promises.mkdir(`${tempDir}/src/Application/Orders`, { recursive: true });
+            await fs.promises.rename(
+                `${tempDir}/src/Application/Services/OrderService.cs`,
+                `${tempDir}/src/Application/Orders/OrderService.cs`,
+            );
+
+            await waitForOutput('(+1 new, -0 resolved)');
+            expect(output).toContain('+ invalid-directory-structure: ./tests/Application.Tests/Services/OrderServiceTests.cs');
+        }, 30000);
+
+        it('should report what a moved test resolves and adds, checking only that test again', async () => {
+            startWatch('-d --no-cache');
+            await waitForOutput('Watching for changes');
+
+            await fs.promises.rename(
+                `${tempDir}/tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs`,
+                `${tempDir}/tests/Application.Tests/Services/UserServiceTests.cs`,
+            );
+
+            // The test kept the namespace of the folder it came from
+            await waitForOutput('(+1 new, -1 resolved)');
+            expect(output).toContain('Re-checked 1 test files');
+            expect(output).toContain('+ namespace-mismatch: ./tests/Application.Tests/Services/UserServiceTests.cs');
+            expect(output).toContain('- invalid-directory-structure: ./tests/Application.Tests/Services/WrongLocation/UserServiceTests.cs');
+        }, 30000);
+
+        it('should keep watching folders created after it started', async () => {
+            startWatch('-m --no-cache');
+            await waitForOutput('Watching for changes');
+
+            await fs.promises.mkdir(`${tempDir}/src/Application/Billing`);
+            await new Promise((resolve) => setTimeout(resolve, 500));
+            await fs.promises.writeFile(`${tempDir}/src/Application/Billing/InvoiceService.cs`, 'public class InvoiceService { }\n');
+
+            await waitForOutput('+ missing-test: ./tests/Application.Tests/Billing/InvoiceServiceTests.cs');
+        }, 30000);
+
+        it('should read the projects again when a project file changes', async () => {
+            const referencing = (project: string) =>
+                '<Project Sdk="Microsoft.NET.Sdk">\n  <PropertyGroup>\n    <IsTestProject>true</IsTestProject>\n  </PropertyGroup>\n' +
+                (project ? `  <ItemGroup>\n    <ProjectReference Include="${project}" />\n  </ItemGroup>\n` : '') +
+                '</Project>\n';
+            const apiReference = '..\\..\\src\\Billing.Api\\Billing.Api.csproj';
+            await fs.promises.writeFile(
+                `${tempDir}/Billing.sln`,
+                ['src\\Billing.Api\\Billing.Api.csproj', 'tests\\Billing.Api.Tests\\Billing.Api.Tests.csproj', 'tests\\Billing.Checks\\Billing.Checks.csproj']
+                    .map((project) => `Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "${path.basename(project, '.csproj')}", "${project}", "{}"\nEndProject\n`)
+                    .join(''),
+            );
+            await fs.promises.mkdir(`${tempDir}/src/Billing.Api/Svc`, { recursive: true });
+            await fs.promises.mkdir(`${tempDir}/tests/Billing.Api.Tests/Svc`, { recursive: true });
+            await fs.promises.mkdir(`${tempDir}/tests/Billing.Checks`, { recursive: true });
+            await fs.promises.writeFile(`${tempDir}/src/Billing.Api/Billing.Api.csproj`, '<Project Sdk="Microsoft.NET.Sdk"></Project>\n');
+            await fs.promises.writeFile(`${tempDir}/src/Billing.Api/Svc/Pay.cs`, 'namespace Billing.Api.Svc;\n\npublic class Pay\n{\n}\n');
+            await fs.promises.writeFile(`${tempDir}/tests/Billing.Api.Tests/Billing.Api.Tests.csproj`, referencing(apiReference));
+            await fs.promises.writeFile(`${tempDir}/tests/Billing.Checks/Billing.Checks.csproj`, referencing(''));
+            await fs.promises.writeFile(`${tempDir}/tests/Billing.Api.Tests/Svc/PayTests.cs`, 'namespace Billing.Api.Tests.Svc;\n\npublic class PayTests\n{\n}\n');
+            startWatch(`-d --no-cache --solution ${tempDir}/Billing.sln`);
+            await waitForOutput('Watching for changes');
+
+            await fs.promises.writeFile(`${tempDir}/tests/Billing.Api.Tests/Billing.Api.Tests.csproj`, referencing(''));
+            await fs.promises.writeFile(`${tempDir}/tests/Billing.Checks/Billing.Checks.csproj`, referencing(apiReference));
+
+            await waitForOutput('+ invalid-directory-structure: ./tests/Billing.Api.Tests/Svc/PayTests.cs');
+        }, 30000);
+
+        it('should refuse to watch while fixing', async () => {
+            const result = await executeCLI(`-s ./${tempDir}/src/ -t ./${tempDir}/tests/ -d -a -w`);
+            expect(result.exitCode).not.toBe(0);
+            expect(result.stderr).toContain('--watch cannot be combined with fixes');
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Synthetic solution for benchmarks: projects of feature folders, each source with a test in
+// the mirrored folder except for a known share that is missing or misplaced. Every folder also
+// has a Handler.cs, so duplicate names have to be told apart by their folder; the other names
+// are unique
+export interface LargeTreeOptions {
+    projects: number;
+    foldersPerProject: number;
+    filesPerFolder: number;
+}
+
+export interface LargeTree {
+    srcRoot: string;
+    testRoot: string;
+    sourceFiles: number;
+    testFiles: number;
+    missingTests: number;
+    misplacedTests: number;
+}
+
+const isMissing = (index: number) => index % 10 === 9;
+const isMisplaced = (index: number) => index % 25 === 12;
+
+const writeClass = (filePath: string, namespace: string, className: string) => {
+    fs.writeFileSync(filePath, `namespace ${namespace};\n\npublic class ${className}\n{\n}\n`);
+};
+
+export function generateLargeTree(root: string, options: LargeTreeOptions): LargeTree {
+    const tree: LargeTree = {
+        srcRoot: path.join(root, 'src'),
+        testRoot: path.join(root, 'tests'),
+        sourceFiles: 0,
+        testFiles: 0,
+        missingTests: 0,
+        misplacedTests: 0,
+    };
+
+    for (let p = 0; p < options.projects; p++) {
+        const project = `Project${p}`;
+        const testProject = `${project}.Tests`;
+        fs.mkdirSync(path.join(tree.testRoot, testProject, 'Misplaced'), { recursive: true });
+
+        for (let f = 0; f < options.foldersPerProject; f++) {
+            const folder = `Feature${f}`;
+            const sourceDir = path.join(tree.srcRoot, project, folder);
+            const testDir = path.join(tree.testRoot, testProject, folder);
+            fs.mkdirSync(sourceDir, { recursive: true });
+            fs.mkdirSync(testDir, { recursive: true });
+
+            const names = ['Handler'];
+            for (let i = 0; i < options.filesPerFolder; i++) {
+                names.push(`${project}${folder}Service${i}`);
+            }
+
+            names.forEach((name, index) => {
+                writeClass(path.join(sourceDir, `${name}.cs`), `${project}.${folder}`, name);
+                tree.sourceFiles++;
+
+                if (isMissing(index)) {
+                    tree.missingTests++;
+                    return;
+                }
+                const misplaced = isMisplaced(index);
+                const dir = misplaced ? path.join(tree.testRoot, testProject, 'Misplaced') : testDir;
+                writeClass(
+                    path.join(dir, `${name}Tests.cs`),
+                    `${testProject}.${misplaced ? 'Misplaced' : folder}`,
+                    `${name}Tests`,
+                );
+                tree.testFiles++;
+                if (misplaced) {
+                    tree.misplacedTests++;
+                }
+            });
+        }
+    }
+
+    return tree;
+}